@@ -0,0 +1,16 @@
+import path from "node:path";
+import { profileDirs } from "../plugins/profiles";
+import { readAvailability } from "../server/contact/availability";
+import { adapterFromEnv } from "../server/contact/delivery";
+import { createContactHandler } from "../server/contact/handler";
+
+// Vercel serverless function: POST /api/contact.
+// Delivery is configured through environment variables (see server/contact/delivery.ts).
+// Call requests are checked against the profile's availability.yaml, bundled with the function by vercel.json.
+const root = process.cwd();
+const availability = readAvailability(path.join(root, profileDirs(root).content));
+const handleContact = createContactHandler({ delivery: adapterFromEnv(process.env), availability: () => availability });
+
+export function POST(request: Request): Promise<Response> {
+  return handleContact(request);
+}
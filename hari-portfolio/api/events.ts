@@ -0,0 +1,10 @@
+import { createEventsHandler } from "../server/analytics/handler";
+import { sinkFromEnv } from "../server/analytics/sinks";
+
+// Vercel serverless function: POST /api/events (analytics collector).
+// The sink is configured through environment variables (see server/analytics/sinks.ts).
+const handleEvents = createEventsHandler({ sink: sinkFromEnv(process.env) });
+
+export function POST(request: Request): Promise<Response> {
+  return handleEvents(request);
+}
@@ -0,0 +1,93 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { Plugin } from "vite";
+import { CONTENT_FILES, validateContentFile, type ContentIssue } from "../src/content/schema";
+import { toContentYaml, yamlHeader } from "../src/content/yaml";
+import { ADMIN_ENDPOINT, EDITABLE_FILES, type AdminContent, type EditableKey } from "../src/lib/admin";
+import { sendResponse, toRequest } from "../server/node-http";
+
+/**
+ * Backs the /admin content editor during `npm run dev`:
+ *
+ *   GET  /__admin/content  the editable files as parsed YAML
+ *   PUT  /__admin/content  { projects?, experience?, skills? } written back to /content
+ *
+ * Saved files are validated first and nothing is written if any has a problem.
+ * The content plugin then picks up the change and reloads the page. Requests
+ * from other sites are refused so a page open in another tab can't write here.
+ */
+
+const JSON_HEADERS = { "content-type": "application/json", "cache-control": "no-store" };
+
+function isEditable(key: string): key is EditableKey {
+  return (EDITABLE_FILES as readonly string[]).includes(key);
+}
+
+function crossSite(request: Request): boolean {
+  if (request.headers.get("sec-fetch-site") === "cross-site") return true;
+  const origin = request.headers.get("origin");
+  return origin !== null && new URL(origin).host !== new URL(request.url).host;
+}
+
+async function readContent(dir: string): Promise<AdminContent> {
+  const entries = await Promise.all(
+    EDITABLE_FILES.map(async (key) => {
+      const source = await readFile(path.join(dir, CONTENT_FILES[key]), "utf8");
+      return [key, { data: parseYaml(source), header: yamlHeader(source) }] as const;
+    }),
+  );
+  return Object.fromEntries(entries) as AdminContent;
+}
+
+async function saveContent(dir: string, body: unknown): Promise<Response> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return new Response("Expected a JSON object of content files", { status: 400 });
+  }
+  const files = Object.entries(body);
+  const unknown = files.map(([key]) => key).filter((key) => !isEditable(key));
+  if (unknown.length) return new Response(`Not editable: ${unknown.join(", ")}`, { status: 400 });
+
+  const issues: ContentIssue[] = files.flatMap(([key, data]) => validateContentFile(key as EditableKey, data).issues);
+  if (issues.length) return new Response(JSON.stringify({ issues }), { status: 422, headers: JSON_HEADERS });
+
+  const current = await readContent(dir);
+  await Promise.all(
+    files.map(([key, data]) => {
+      const k = key as EditableKey;
+      return writeFile(path.join(dir, CONTENT_FILES[k]), toContentYaml(data, current[k].header), "utf8");
+    }),
+  );
+  return new Response(null, { status: 204 });
+}
+
+export default function adminPlugin(options: { dir?: string } = {}): Plugin {
+  return {
+    name: "portfolio-admin",
+    apply: "serve",
+    configureServer(server) {
+      const dir = path.resolve(server.config.root, options.dir ?? "content");
+
+      server.middlewares.use(async (req, res, next) => {
+        if ((req.url ?? "").split("?")[0] !== ADMIN_ENDPOINT) return next();
+        try {
+          const request = await toRequest(req, `http://${req.headers.host ?? "localhost"}`);
+          let response: Response;
+          if (crossSite(request)) {
+            response = new Response(null, { status: 403 });
+          } else if (request.method === "GET") {
+            response = new Response(JSON.stringify(await readContent(dir)), { headers: JSON_HEADERS });
+          } else if (request.method === "PUT") {
+            const body = await request.json().catch(() => undefined);
+            response = await saveContent(dir, body);
+          } else {
+            response = new Response(null, { status: 405, headers: { allow: "GET, PUT" } });
+          }
+          await sendResponse(res, response);
+        } catch (err) {
+          next(err);
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import path from "node:path";
+import { loadEnv, type Plugin } from "vite";
+import { createEventsHandler } from "../server/analytics/handler";
+import { sinkFromEnv } from "../server/analytics/sinks";
+import { readAvailability } from "../server/contact/availability";
+import { adapterFromEnv } from "../server/contact/delivery";
+import { createContactHandler } from "../server/contact/handler";
+import { sendResponse, toRequest, type FetchHandler } from "../server/node-http";
+
+/**
+ * Dev-only stand-in for the Vercel functions in /api. Requests to the routes
+ * below are answered by the same handlers Vercel runs, configured from .env
+ * files, so the contact form works offline during `npm run dev`.
+ * With no CONTACT_DELIVERY set, messages go to the file adapter
+ * (.data/contact-messages.jsonl) instead of being sent anywhere; likewise
+ * analytics events land in .data/analytics-events.jsonl unless ANALYTICS_SINK
+ * says otherwise (the tracker only posts here with VITE_ANALYTICS=endpoint).
+ * Call requests are checked against the profile's availability.yaml as it
+ * is at the time, so edits apply without a restart.
+ */
+export default function apiPlugin(options: { dir?: string } = {}): Plugin {
+  return {
+    name: "portfolio-api",
+    apply: "serve",
+    configureServer(server) {
+      const dir = path.resolve(server.config.root, options.dir ?? "content");
+      const env = { CONTACT_DELIVERY: "file", ANALYTICS_SINK: "file", ...process.env, ...loadEnv(server.config.mode, server.config.root, "") };
+      const routes: Record<string, FetchHandler> = {
+        "/api/contact": createContactHandler({ delivery: adapterFromEnv(env), availability: () => readAvailability(dir) }),
+        "/api/events": createEventsHandler({ sink: sinkFromEnv(env) }),
+      };
+
+      server.middlewares.use(async (req, res, next) => {
+        const handler = routes[(req.url ?? "").split("?")[0]];
+        if (!handler) return next();
+        try {
+          await sendResponse(res, await handler(await toRequest(req, `http://${req.headers.host ?? "localhost"}`)));
+        } catch (err) {
+          next(err);
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,340 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import hljs from "highlight.js";
+import { Marked } from "marked";
+import { markedHighlight } from "marked-highlight";
+import { parse as parseYaml } from "yaml";
+import type { Plugin } from "vite";
+import {
+  AVAILABILITY_FILE,
+  CASE_STUDY_DIR,
+  CONTENT_FILES,
+  ContentError,
+  GITHUB_SNAPSHOT_FILE,
+  POSTS_DIR,
+  TRANSLATIONS_DIR,
+  formatIssues,
+  skillNameWarnings,
+  untranslatedContent,
+  validateAvailability,
+  validateCaseStudyMeta,
+  validateContent,
+  validateGithubSnapshot,
+  validatePostMeta,
+  validateTranslation,
+  type Availability,
+  type CaseStudy,
+  type ContentIssue,
+  type ContentTranslation,
+  type GithubSnapshot,
+  type LocalizedCopy,
+  type Post,
+  type RawContent,
+  type SiteContent,
+} from "../src/content/schema";
+import { DEFAULT_LOCALE, LOCALES, isLocale } from "../src/lib/locale";
+
+/**
+ * Vite plugin that turns the profile's content files (/content unless another
+ * profile is selected, see plugins/profiles.ts) into the `virtual:content`
+ * module. Content is parsed and validated every time the module is loaded, so
+ * `vite build` fails on malformed entries and the dev server shows the same
+ * error in its overlay until the file is fixed.
+ */
+
+const VIRTUAL_ID = "virtual:content";
+const RESOLVED_ID = "\0" + VIRTUAL_ID;
+
+const ABOUT_FILE = "about.md";
+
+// Repos pushed to within this many days of the build get a "recently active" badge.
+const RECENT_DAYS = 90;
+
+const WORDS_PER_MINUTE = 200;
+const EXCERPT_LENGTH = 180;
+
+// Code blocks are highlighted at build time so no highlighter ships to the browser.
+const marked = new Marked(
+  markedHighlight({
+    emptyLangClass: "hljs",
+    langPrefix: "hljs language-",
+    highlight(code, lang) {
+      const language = hljs.getLanguage(lang) ? lang : "plaintext";
+      return hljs.highlight(code, { language }).value;
+    },
+  }),
+);
+
+export interface LoadOptions {
+  /** Include posts marked `draft: true` (dev server only). */
+  drafts?: boolean;
+}
+
+function readFile(dir: string, file: string, issues: ContentIssue[]): string | undefined {
+  try {
+    return readFileSync(path.join(dir, file), "utf8");
+  } catch {
+    issues.push({ file, path: "(file)", message: "could not be read" });
+    return undefined;
+  }
+}
+
+function readYaml(dir: string, file: string, issues: ContentIssue[]): unknown {
+  const source = readFile(dir, file, issues);
+  if (source === undefined) return undefined;
+  try {
+    return parseYaml(source);
+  } catch (err) {
+    issues.push({ file, path: "(file)", message: `is not valid YAML: ${(err as Error).message}` });
+    return undefined;
+  }
+}
+
+/** content/github.json, written by scripts/github-import.ts. Optional until a project sets `repo`. */
+export function loadGithubSnapshot(dir: string, issues: ContentIssue[]): GithubSnapshot {
+  let raw: unknown;
+  if (existsSync(path.join(dir, GITHUB_SNAPSHOT_FILE))) {
+    const source = readFile(dir, GITHUB_SNAPSHOT_FILE, issues);
+    try {
+      raw = source === undefined ? undefined : JSON.parse(source);
+    } catch (err) {
+      issues.push({ file: GITHUB_SNAPSHOT_FILE, path: "(file)", message: `is not valid JSON: ${(err as Error).message}` });
+    }
+  }
+  const result = validateGithubSnapshot(raw);
+  issues.push(...result.issues);
+  return result.snapshot;
+}
+
+/** content/availability.yaml; without it the contact form offers no calls. */
+function loadAvailability(dir: string, issues: ContentIssue[]): Availability | undefined {
+  const raw = existsSync(path.join(dir, AVAILABILITY_FILE)) ? readYaml(dir, AVAILABILITY_FILE, issues) : undefined;
+  const result = validateAvailability(raw);
+  issues.push(...result.issues);
+  return result.availability;
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/** Split a Markdown file into its YAML frontmatter (if any) and body. */
+export function parseFrontmatter(source: string): { data: unknown; body: string } {
+  const match = FRONTMATTER.exec(source);
+  if (!match) return { data: undefined, body: source };
+  return { data: parseYaml(match[1]), body: source.slice(match[0].length) };
+}
+
+/** Read every `<slug>.md` in a content subdirectory, with frontmatter split off. */
+function readMarkdownDir(dir: string, sub: string, issues: ContentIssue[]) {
+  const full = path.join(dir, sub);
+  if (!existsSync(full)) return [];
+
+  return readdirSync(full)
+    .filter((f) => f.endsWith(".md"))
+    .sort()
+    .flatMap((name) => {
+      const file = `${sub}/${name}`;
+      const source = readFile(dir, file, issues);
+      if (source === undefined) return [];
+      try {
+        return [{ file, slug: name.slice(0, -".md".length), ...parseFrontmatter(source) }];
+      } catch (err) {
+        issues.push({ file, path: "frontmatter", message: `is not valid YAML: ${(err as Error).message}` });
+        return [];
+      }
+    });
+}
+
+function loadCaseStudies(dir: string, slugs: string[], issues: ContentIssue[]): Map<string, CaseStudy> {
+  const studies = new Map<string, CaseStudy>();
+  for (const { file, slug, data, body } of readMarkdownDir(dir, CASE_STUDY_DIR, issues)) {
+    if (!slugs.includes(slug)) {
+      issues.push({ file, path: "(file)", message: `does not match any project slug in ${CONTENT_FILES.projects}` });
+      continue;
+    }
+    const meta = validateCaseStudyMeta(file, data);
+    issues.push(...meta.issues);
+    studies.set(slug, { html: marked.parse(body, { async: false }) });
+  }
+  return studies;
+}
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": '"', "&#39;": "'" };
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39);/g, (e) => ENTITIES[e])
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function excerptOf(html: string): string {
+  const first = /<p>([\s\S]*?)<\/p>/.exec(html);
+  const plain = stripTags(first ? first[1] : html);
+  return plain.length > EXCERPT_LENGTH ? `${plain.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, "")}…` : plain;
+}
+
+function loadPosts(dir: string, options: LoadOptions, issues: ContentIssue[]): Post[] {
+  return readMarkdownDir(dir, POSTS_DIR, issues)
+    .flatMap(({ file, slug, data, body }) => {
+      const { meta, issues: metaIssues } = validatePostMeta(file, data);
+      issues.push(...metaIssues);
+      if (meta.draft && !options.drafts) return [];
+      const html = marked.parse(body, { async: false });
+      const words = body.split(/\s+/).filter(Boolean).length;
+      return [
+        {
+          ...meta,
+          slug,
+          html,
+          excerpt: meta.summary ?? excerptOf(html),
+          readingMinutes: Math.max(1, Math.round(words / WORDS_PER_MINUTE)),
+        },
+      ];
+    })
+    .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title));
+}
+
+/** content/i18n/<locale>.yaml for every locale that has one. */
+function loadTranslations(dir: string, sectionIds: string[], issues: ContentIssue[]): Map<string, ContentTranslation> {
+  const translations = new Map<string, ContentTranslation>();
+  const full = path.join(dir, TRANSLATIONS_DIR);
+  if (!existsSync(full)) return translations;
+
+  for (const name of readdirSync(full).filter((f) => f.endsWith(".yaml")).sort()) {
+    const file = `${TRANSLATIONS_DIR}/${name}`;
+    const locale = name.slice(0, -".yaml".length);
+    if (!isLocale(locale) || locale === DEFAULT_LOCALE) {
+      issues.push({ file, path: "(file)", message: "is not named after a supported non-default locale (see src/lib/locale.ts)" });
+      continue;
+    }
+    const result = validateTranslation(file, readYaml(dir, file, issues), sectionIds);
+    issues.push(...result.issues);
+    translations.set(locale, result.translation);
+  }
+  return translations;
+}
+
+function renderTranslation(t: ContentTranslation): LocalizedCopy {
+  const { summary, ...profile } = t.profile;
+  return {
+    profile: { ...profile, summaryHtml: summary === undefined ? undefined : marked.parseInline(summary, { async: false }) },
+    about: t.about === undefined ? undefined : { html: marked.parse(t.about, { async: false }) },
+    nav: t.nav,
+  };
+}
+
+/** Load, validate and render all content. Throws `ContentError` on any issue. */
+export function loadContent(dir: string, options: LoadOptions = {}): SiteContent {
+  const issues: ContentIssue[] = [];
+  const raw = Object.fromEntries(
+    Object.entries(CONTENT_FILES).map(([key, file]) => [key, readYaml(dir, file, issues)]),
+  ) as RawContent;
+  const about = readFile(dir, ABOUT_FILE, issues);
+
+  const result = validateContent(raw);
+  issues.push(...result.issues);
+  const caseStudies = loadCaseStudies(dir, result.content.projects.map((p) => p.slug), issues);
+  const posts = loadPosts(dir, options, issues);
+  const github = loadGithubSnapshot(dir, issues);
+  const availability = loadAvailability(dir, issues);
+  const translations = loadTranslations(dir, result.content.sections.map((s) => s.id), issues);
+  result.content.projects.forEach((p, i) => {
+    if (!p.desc && !(p.repo && github.repos[p.repo]?.description)) {
+      issues.push({
+        file: CONTENT_FILES.projects,
+        path: `projects[${i}].desc`,
+        message: "is required (there is no imported GitHub description to fall back on)",
+      });
+    }
+  });
+  if (issues.length) throw new ContentError(issues, path.relative(process.cwd(), dir) || ".");
+
+  const recentSince = Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+  const { profile, projects, ...rest } = result.content;
+  return {
+    ...rest,
+    projects: projects.map((p) => {
+      const repo = p.repo ? github.repos[p.repo] : undefined;
+      return {
+        ...p,
+        desc: p.desc || repo?.description || "",
+        github: repo && { ...repo, recentlyActive: Date.parse(repo.pushedAt) >= recentSince },
+        caseStudy: caseStudies.get(p.slug),
+      };
+    }),
+    profile: { ...profile, summaryHtml: marked.parseInline(profile.summary, { async: false }) },
+    about: { html: marked.parse(about ?? "", { async: false }) },
+    posts,
+    translations: Object.fromEntries([...translations].map(([locale, t]) => [locale, renderTranslation(t)])),
+    availability,
+  };
+}
+
+export default function contentPlugin(options: { dir?: string } = {}): Plugin {
+  let dir = "";
+  // How messages refer to the directory, e.g. "content" or "profiles/jane/content".
+  let label = "";
+  let drafts = false;
+  let ssr = false;
+
+  return {
+    name: "portfolio-content",
+    configResolved(config) {
+      dir = path.resolve(config.root, options.dir ?? "content");
+      label = path.relative(config.root, dir);
+      drafts = !config.isProduction;
+      ssr = Boolean(config.build.ssr);
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return;
+      // Optional files and directories a profile doesn't have yet are left out: the dev server would try to
+      // import them. New ones still reload the page through handleHotUpdate.
+      const watched = [
+        ...Object.values(CONTENT_FILES),
+        ABOUT_FILE,
+        CASE_STUDY_DIR,
+        POSTS_DIR,
+        GITHUB_SNAPSHOT_FILE,
+        TRANSLATIONS_DIR,
+        AVAILABILITY_FILE,
+      ];
+      for (const file of watched.map((f) => path.join(dir, f)).filter(existsSync)) this.addWatchFile(file);
+      try {
+        const content = loadContent(dir, { drafts });
+        // Reported once per build (the SSR pass loads the same content again).
+        const warnings = ssr ? [] : skillNameWarnings(content);
+        if (warnings.length) this.warn(formatIssues(warnings, "Stack tags that don't match a skill name", label));
+        const missing: ContentIssue[] = ssr
+          ? []
+          : content.projects.flatMap((p, i) =>
+              p.repo && !p.github
+                ? [{ file: CONTENT_FILES.projects, path: `projects[${i}].repo`, message: `"${p.repo}" is not in ${GITHUB_SNAPSHOT_FILE} yet` }]
+                : [],
+            );
+        if (missing.length) this.warn(formatIssues(missing, "GitHub data missing; run `npm run github:import`", label));
+        const untranslated = ssr
+          ? []
+          : untranslatedContent(content, LOCALES.filter((l) => l.id !== DEFAULT_LOCALE).map((l) => l.id));
+        if (untranslated.length) this.warn(formatIssues(untranslated, "Content not translated yet", label));
+        // `builtOn` dates "Present" in prerendered pages until the browser takes over.
+        return Object.entries({ ...content, builtOn: new Date().toISOString().slice(0, 10) })
+          .map(([key, value]) => `export const ${key} = ${JSON.stringify(value)};`)
+          .join("\n");
+      } catch (err) {
+        if (err instanceof ContentError) this.error(err.message);
+        throw err;
+      }
+    },
+    handleHotUpdate({ file, server }) {
+      if (!file.startsWith(dir + path.sep)) return;
+      const mod = server.moduleGraph.getModuleById(RESOLVED_ID);
+      if (mod) server.moduleGraph.invalidateModule(mod);
+      server.ws.send({ type: "full-reload" });
+      return [];
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import path from "node:path";
+import type { Plugin } from "vite";
+import type { Post, SiteContent } from "../src/content/schema";
+import { loadContent } from "./content";
+
+/**
+ * Vite plugin that writes RSS 2.0 (`rss.xml`) and Atom (`atom.xml`) feeds for
+ * the Writing section into the build output, and links them from index.html.
+ * Feeds are built from the same content as the site, so drafts never appear
+ * in them.
+ */
+
+export const RSS_FILE = "rss.xml";
+export const ATOM_FILE = "atom.xml";
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function postUrl(siteUrl: string, post: Post): string {
+  return `${siteUrl}/writing/${post.slug}`;
+}
+
+// Posts carry calendar dates only; treat them as midnight UTC.
+function postDate(post: Post): Date {
+  return new Date(`${post.date}T00:00:00Z`);
+}
+
+export function renderRss({ profile, posts }: Pick<SiteContent, "profile" | "posts">): string {
+  const site = profile.siteUrl.replace(/\/+$/, "");
+  const items = posts.map(
+    (post) => `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${escapeXml(postUrl(site, post))}</link>
+      <guid isPermaLink="true">${escapeXml(postUrl(site, post))}</guid>
+      <pubDate>${postDate(post).toUTCString()}</pubDate>
+      <description>${escapeXml(post.excerpt)}</description>
+${post.tags.map((t) => `      <category>${escapeXml(t)}</category>`).join("\n")}
+    </item>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(`${profile.name} — Writing`)}</title>
+    <link>${escapeXml(`${site}/writing`)}</link>
+    <atom:link href="${escapeXml(`${site}/${RSS_FILE}`)}" rel="self" type="application/rss+xml" />
+    <description>${escapeXml(profile.seo.description)}</description>
+    <language>en</language>
+${posts.length ? `    <lastBuildDate>${postDate(posts[0]).toUTCString()}</lastBuildDate>\n` : ""}${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom({ profile, posts }: Pick<SiteContent, "profile" | "posts">): string {
+  const site = profile.siteUrl.replace(/\/+$/, "");
+  const updated = posts.length ? postDate(posts[0]) : new Date(0);
+  const entries = posts.map(
+    (post) => `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link href="${escapeXml(postUrl(site, post))}" />
+    <id>${escapeXml(postUrl(site, post))}</id>
+    <published>${postDate(post).toISOString()}</published>
+    <updated>${postDate(post).toISOString()}</updated>
+    <summary>${escapeXml(post.excerpt)}</summary>
+    <content type="html">${escapeXml(post.html)}</content>
+${post.tags.map((t) => `    <category term="${escapeXml(t)}" />`).join("\n")}
+  </entry>`,
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(`${profile.name} — Writing`)}</title>
+  <subtitle>${escapeXml(profile.seo.description)}</subtitle>
+  <link href="${escapeXml(`${site}/writing`)}" />
+  <link href="${escapeXml(`${site}/${ATOM_FILE}`)}" rel="self" />
+  <id>${escapeXml(`${site}/writing`)}</id>
+  <updated>${updated.toISOString()}</updated>
+  <author><name>${escapeXml(profile.name)}</name></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+export default function feedsPlugin(options: { dir?: string } = {}): Plugin {
+  let dir = "";
+  let ssr = false;
+
+  return {
+    name: "portfolio-feeds",
+    apply: "build",
+    configResolved(config) {
+      dir = path.resolve(config.root, options.dir ?? "content");
+      ssr = Boolean(config.build.ssr);
+    },
+    transformIndexHtml() {
+      return [
+        { tag: "link", attrs: { rel: "alternate", type: "application/rss+xml", title: "RSS", href: `/${RSS_FILE}` }, injectTo: "head" },
+        { tag: "link", attrs: { rel: "alternate", type: "application/atom+xml", title: "Atom", href: `/${ATOM_FILE}` }, injectTo: "head" },
+      ];
+    },
+    generateBundle() {
+      if (ssr) return;
+      // Invalid content has already failed the build in the content plugin.
+      const content = loadContent(dir, { drafts: false });
+      this.emitFile({ type: "asset", fileName: RSS_FILE, source: renderRss(content) });
+      this.emitFile({ type: "asset", fileName: ATOM_FILE, source: renderAtom(content) });
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import type { Plugin } from "vite";
+import { missingTranslations } from "../src/i18n";
+import { localeBootScript } from "../src/lib/locale";
+
+/**
+ * Inlines the locale redirect script at the top of <head>, and checks the UI
+ * message catalogs on every build: keys a locale hasn't translated fail
+ * `vite build` and are printed as warnings by the dev server.
+ */
+export default function i18nPlugin(): Plugin {
+  let production = false;
+
+  return {
+    name: "portfolio-i18n",
+    configResolved(config) {
+      production = config.isProduction;
+    },
+    buildStart() {
+      const missing = missingTranslations();
+      if (!missing.length) return;
+      const lines = missing.map(({ locale, keys }) => `  src/i18n/${locale}.ts: ${keys.join(", ")}`);
+      const message = `Missing translation keys (English is shown instead):\n${lines.join("\n")}`;
+      if (production) this.error(message);
+      else this.warn(message);
+    },
+    transformIndexHtml() {
+      return [{ tag: "script", children: localeBootScript(), injectTo: "head-prepend" }];
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+import type { Plugin, ViteDevServer } from "vite";
+import {
+  IMAGE_DIR,
+  IMAGE_FORMATS,
+  variantUrl,
+  variantWidths,
+  type ImageFormat,
+  type ImageInfo,
+  type ImageManifest,
+} from "../src/lib/images";
+
+/**
+ * Vite plugin behind the `virtual:images` module. Every JPEG, PNG and WebP
+ * under public/ is resized to the widths in src/lib/images.ts and encoded as
+ * AVIF and WebP; SVGs only contribute their dimensions. Builds emit the
+ * variants under dist/img/ (cached in Vite's cache dir between builds), and
+ * the dev server encodes them on request.
+ */
+
+const VIRTUAL_ID = "virtual:images";
+const RESOLVED_ID = "\0" + VIRTUAL_ID;
+
+const RASTER = /\.(jpe?g|png|webp)$/i;
+const VECTOR = /\.svg$/i;
+
+// Part of every variant's hash, so changing the settings busts the cache.
+const ENCODER = { avif: { quality: 50, effort: 4 }, webp: { quality: 75 } } as const;
+const PLACEHOLDER_WIDTH = 16;
+
+interface Variant {
+  file: string;
+  width: number;
+  format: ImageFormat;
+}
+
+interface Scan {
+  manifest: ImageManifest;
+  /** Keyed by variant URL. */
+  variants: Map<string, Variant>;
+}
+
+export function publicFiles(dir: string, prefix = ""): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const rel = `${prefix}/${entry.name}`;
+    // Skip already-generated variants if someone copies dist/ into public/.
+    if (entry.isDirectory()) return rel === `/${IMAGE_DIR}` ? [] : publicFiles(path.join(dir, entry.name), rel);
+    return RASTER.test(entry.name) || VECTOR.test(entry.name) ? [rel] : [];
+  });
+}
+
+/** Width and height from an SVG's attributes, falling back to its viewBox. */
+function svgSize(source: string): { width: number; height: number } | undefined {
+  const tag = /<svg\b[^>]*>/i.exec(source)?.[0] ?? "";
+  const attr = (name: string) => Number.parseFloat(new RegExp(`\\s${name}="([\\d.]+)(px)?"`).exec(tag)?.[1] ?? "");
+  const [width, height] = [attr("width"), attr("height")];
+  if (width > 0 && height > 0) return { width, height };
+  const box = /\sviewBox="[\d.-]+[\s,]+[\d.-]+[\s,]+([\d.]+)[\s,]+([\d.]+)"/.exec(tag);
+  return box ? { width: Number(box[1]), height: Number(box[2]) } : undefined;
+}
+
+async function scan(publicDir: string): Promise<Scan> {
+  const manifest: ImageManifest = {};
+  const variants = new Map<string, Variant>();
+
+  for (const src of publicFiles(publicDir).sort()) {
+    const file = path.join(publicDir, src);
+    const buffer = readFileSync(file);
+
+    if (VECTOR.test(src)) {
+      const size = svgSize(buffer.toString("utf8"));
+      if (size) manifest[src] = { ...size, sources: [] };
+      continue;
+    }
+
+    const meta = await sharp(buffer).metadata();
+    const { width, height } = meta.autoOrient;
+    const hash = createHash("sha256").update(buffer).update(JSON.stringify(ENCODER)).digest("hex").slice(0, 8);
+    const widths = variantWidths(width);
+    const preview = await sharp(buffer).autoOrient().resize(PLACEHOLDER_WIDTH).webp({ quality: 40 }).toBuffer();
+
+    const info: ImageInfo = {
+      width,
+      height,
+      placeholder: `data:image/webp;base64,${preview.toString("base64")}`,
+      sources: IMAGE_FORMATS.map((format) => ({
+        type: `image/${format}`,
+        srcSet: widths.map((w) => `${variantUrl(src, hash, w, format)} ${w}w`).join(", "),
+      })),
+    };
+    manifest[src] = info;
+    for (const format of IMAGE_FORMATS) {
+      for (const w of widths) variants.set(variantUrl(src, hash, w, format), { file, width: w, format });
+    }
+  }
+  return { manifest, variants };
+}
+
+async function encode({ file, width, format }: Variant): Promise<Buffer> {
+  const image = sharp(file).autoOrient().resize(width);
+  return format === "avif" ? image.avif(ENCODER.avif).toBuffer() : image.webp(ENCODER.webp).toBuffer();
+}
+
+/** Encode a variant, reusing an earlier build's output; URLs are content-hashed, so stale entries never match. */
+async function cachedEncode(cacheDir: string, url: string, variant: Variant): Promise<Buffer> {
+  const cached = path.join(cacheDir, url.replace(/\//g, "_"));
+  if (existsSync(cached)) return readFileSync(cached);
+  const output = await encode(variant);
+  mkdirSync(cacheDir, { recursive: true });
+  writeFileSync(cached, output);
+  return output;
+}
+
+export default function imagesPlugin(): Plugin {
+  let publicDir = "";
+  let cacheDir = "";
+  let ssr = false;
+  let current: Promise<Scan> | undefined;
+
+  const load = () => (current ??= scan(publicDir));
+
+  const reset = (server: ViteDevServer) => {
+    current = undefined;
+    const mod = server.moduleGraph.getModuleById(RESOLVED_ID);
+    if (mod) server.moduleGraph.invalidateModule(mod);
+    server.ws.send({ type: "full-reload" });
+  };
+
+  return {
+    name: "portfolio-images",
+    configResolved(config) {
+      publicDir = config.publicDir;
+      cacheDir = path.join(config.cacheDir, "images");
+      ssr = Boolean(config.build.ssr);
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID;
+    },
+    async load(id) {
+      if (id !== RESOLVED_ID) return;
+      const { manifest } = await load();
+      return `export default ${JSON.stringify(manifest)};`;
+    },
+    configureServer(server) {
+      const onChange = (file: string) => {
+        if (file.startsWith(publicDir + path.sep) && (RASTER.test(file) || VECTOR.test(file))) reset(server);
+      };
+      server.watcher.on("add", onChange).on("change", onChange).on("unlink", onChange);
+
+      server.middlewares.use(async (req, res, next) => {
+        const url = (req.url ?? "").split("?")[0];
+        if (!url.startsWith(`/${IMAGE_DIR}/`)) return next();
+        try {
+          const variant = (await load()).variants.get(url);
+          if (!variant) return next();
+          res.setHeader("content-type", `image/${variant.format}`);
+          res.end(await cachedEncode(cacheDir, url, variant));
+        } catch (err) {
+          next(err);
+        }
+      });
+    },
+    async generateBundle() {
+      if (ssr) return;
+      for (const [url, variant] of (await load()).variants) {
+        this.emitFile({ type: "asset", fileName: url.slice(1), source: await cachedEncode(cacheDir, url, variant) });
+      }
+    },
+  };
+}
@@ -0,0 +1,230 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+import type { Plugin } from "vite";
+import type { Post, Project, SiteContent } from "../src/content/schema";
+import { localizeContent, translate } from "../src/i18n";
+import { formatDate } from "../src/lib/format";
+import { LOCALES, intlLocale, type Locale } from "../src/lib/locale";
+import { OG_DIR, OG_SIZE, ogCardFile, type OgCard } from "../src/lib/og";
+import type { PaletteId } from "../src/lib/theme-boot";
+import { loadContent } from "./content";
+
+/**
+ * Vite plugin that renders the social cards described in src/lib/og.ts. Each
+ * card is an SVG drawn here and rasterized with sharp, so the build needs no
+ * browser or network, only a sans-serif font on the machine. Cards use the
+ * accent gradient of the palette set in profile.yaml, read from src/index.css
+ * so they follow the site's colors. The dev server renders them on request.
+ */
+
+const { width: W, height: H } = OG_SIZE;
+const PAD = 80;
+const FONT = "system-ui, 'Segoe UI', Helvetica, Arial, 'DejaVu Sans', sans-serif";
+const BACKGROUND = "#0a0a0a";
+const TEXT = "#fafafa";
+const MUTED = "#a3a3a3";
+
+// Average glyph width as a share of the font size; text is wrapped by estimate since there's no layout engine.
+const CHAR_WIDTH = { regular: 0.54, bold: 0.6 };
+
+interface Accent {
+  from: string;
+  to: string;
+}
+
+/** A palette's `--accent` / `--accent-end` channels from src/index.css, as hex. */
+export function readAccent(cssFile: string, palette: PaletteId): Accent {
+  const css = readFileSync(cssFile, "utf8");
+  const block = new RegExp(`\\[data-palette="${palette}"\\]\\s*\\{([^}]*)\\}`).exec(css)?.[1] ?? "";
+  const channel = (name: string) => {
+    const rgb = new RegExp(`--${name}:\\s*(\\d+)\\s+(\\d+)\\s+(\\d+)`).exec(block);
+    if (!rgb) throw new Error(`${cssFile}: no --${name} for the "${palette}" palette`);
+    return `#${rgb.slice(1).map((c) => Number(c).toString(16).padStart(2, "0")).join("")}`;
+  };
+  return { from: channel("accent"), to: channel("accent-end") };
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function textWidth(text: string, size: number, weight: keyof typeof CHAR_WIDTH = "regular"): number {
+  return text.length * size * CHAR_WIDTH[weight];
+}
+
+/** Greedy word wrap to `maxLines`, ending in "…" when the text doesn't fit. */
+function wrap(text: string, size: number, maxWidth: number, maxLines: number, weight: keyof typeof CHAR_WIDTH = "regular"): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (textWidth(next, size, weight) <= maxWidth || !line) {
+      line = next;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+  if (lines.length < maxLines && line) lines.push(line);
+  else if (line) lines[maxLines - 1] = `${lines[maxLines - 1].replace(/[\s.,;:]*$/, "")}…`;
+  return lines;
+}
+
+function textBlock(lines: string[], x: number, y: number, size: number, attrs: string): string {
+  const spans = lines.map((l, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : size * 1.25}">${escapeXml(l)}</tspan>`).join("");
+  return `<text x="${x}" y="${y}" font-size="${size}" ${attrs}>${spans}</text>`;
+}
+
+const CHIP = { size: 24, padX: 18, height: 44, gap: 12 };
+
+function chip(label: string, x: number, y: number): { svg: string; width: number } {
+  const { size, padX, height } = CHIP;
+  const width = textWidth(label, size) + padX * 2;
+  return {
+    width,
+    svg:
+      `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${height / 2}" fill="#ffffff0d" stroke="#ffffff33" />` +
+      `<text x="${x + width / 2}" y="${y + height / 2 + size * 0.35}" font-size="${size}" fill="${TEXT}" text-anchor="middle">${escapeXml(label)}</text>`,
+  };
+}
+
+/** Tag chips in one row; tags that don't fit are summed up in a last "+N" chip. */
+function chips(tags: string[], x: number, y: number, maxWidth: number): string {
+  const out: string[] = [];
+  let cursor = x;
+  for (const [i, tag] of tags.entries()) {
+    const rest = tags.length - i - 1;
+    const needed = textWidth(tag, CHIP.size) + CHIP.padX * 2 + (rest ? textWidth(`+${rest}`, CHIP.size) + CHIP.padX * 2 + CHIP.gap : 0);
+    if (cursor + needed > x + maxWidth) {
+      out.push(chip(`+${rest + 1}`, cursor, y).svg);
+      break;
+    }
+    const { svg, width } = chip(tag, cursor, y);
+    out.push(svg);
+    cursor += width + CHIP.gap;
+  }
+  return out.join("");
+}
+
+/** Background glows, the accent bar and the footer shared by every card. */
+function frame(accent: Accent, footer: string, body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${W}" height="${H}" viewBox="0 0 ${W} ${H}">
+  <defs>
+    <linearGradient id="accent" x1="0" y1="0" x2="1" y2="0">
+      <stop offset="0" stop-color="${accent.from}" />
+      <stop offset="1" stop-color="${accent.to}" />
+    </linearGradient>
+    <radialGradient id="glow-a"><stop offset="0" stop-color="${accent.from}" stop-opacity="0.35" /><stop offset="1" stop-color="${accent.from}" stop-opacity="0" /></radialGradient>
+    <radialGradient id="glow-b"><stop offset="0" stop-color="${accent.to}" stop-opacity="0.3" /><stop offset="1" stop-color="${accent.to}" stop-opacity="0" /></radialGradient>
+  </defs>
+  <rect width="${W}" height="${H}" fill="${BACKGROUND}" />
+  <circle cx="80" cy="40" r="420" fill="url(#glow-a)" />
+  <circle cx="${W - 40}" cy="${H}" r="460" fill="url(#glow-b)" />
+  <rect width="${W}" height="12" fill="url(#accent)" />
+  <g font-family="${FONT}">
+    ${body}
+    <text x="${PAD}" y="${H - PAD + 10}" font-size="26" fill="${MUTED}">${escapeXml(footer)}</text>
+  </g>
+</svg>`;
+}
+
+function homeCard(profile: SiteContent["profile"], accent: Accent, host: string): string {
+  const name = wrap(profile.name, 88, W - PAD * 2, 2, "bold");
+  const headline = wrap(profile.headline, 40, W - PAD * 2, 2);
+  const nameY = 250;
+  const headlineY = nameY + (name.length - 1) * 110 + 90;
+  return frame(
+    accent,
+    host,
+    [
+      textBlock(name, PAD, nameY, 88, `font-weight="700" fill="${TEXT}"`),
+      `<rect x="${PAD}" y="${nameY + (name.length - 1) * 110 + 30}" width="160" height="8" rx="4" fill="url(#accent)" />`,
+      textBlock(headline, PAD, headlineY, 40, `fill="${MUTED}"`),
+    ].join(""),
+  );
+}
+
+/** Title, a short description and tag chips: the layout of project and post cards. */
+function detailCard(accent: Accent, footer: string, kicker: string, title: string, desc: string, tags: string[]): string {
+  const titleLines = wrap(title, 64, W - PAD * 2, 2, "bold");
+  const titleY = 190;
+  const descY = titleY + (titleLines.length - 1) * 80 + 80;
+  return frame(
+    accent,
+    footer,
+    [
+      `<text x="${PAD}" y="110" font-size="26" font-weight="700" letter-spacing="3" fill="url(#accent)">${escapeXml(kicker.toUpperCase())}</text>`,
+      textBlock(titleLines, PAD, titleY, 64, `font-weight="700" fill="${TEXT}"`),
+      // A two-line title leaves room for two lines of description above the chips.
+      textBlock(wrap(desc, 32, W - PAD * 2, 4 - titleLines.length), PAD, descY, 32, `fill="${MUTED}"`),
+      tags.length ? chips(tags, PAD, H - PAD - 110, W - PAD * 2) : "",
+    ].join(""),
+  );
+}
+
+function projectCard(project: Project, profile: SiteContent["profile"], locale: Locale, accent: Accent, host: string): string {
+  const label = translate(locale, "og.project");
+  const kicker = project.date ? `${label} · ${formatDate(project.date, intlLocale(locale))}` : label;
+  return detailCard(accent, `${profile.name} · ${host}`, kicker, project.title, project.desc, project.stack);
+}
+
+function postCard(post: Post, profile: SiteContent["profile"], locale: Locale, accent: Accent, host: string): string {
+  const kicker = `${translate(locale, "og.post")} · ${formatDate(post.date, intlLocale(locale))}`;
+  return detailCard(accent, `${profile.name} · ${host}`, kicker, post.title, post.excerpt, post.tags);
+}
+
+/** Every card's SVG, keyed by its file path (see src/lib/og.ts). */
+function cardSources(content: SiteContent, cssFile: string): Map<string, string> {
+  const accent = readAccent(cssFile, content.profile.palette);
+  const host = new URL(content.profile.siteUrl).host;
+  const cards = new Map<string, string>();
+  const add = (card: OgCard, svg: string) => cards.set(ogCardFile(card), svg);
+  for (const { id: locale } of LOCALES) {
+    const { profile } = localizeContent(content, locale);
+    add({ kind: "home", locale }, homeCard(profile, accent, host));
+    for (const p of content.projects) add({ kind: "project", slug: p.slug, locale }, projectCard(p, profile, locale, accent, host));
+    for (const p of content.posts) add({ kind: "post", slug: p.slug, locale }, postCard(p, profile, locale, accent, host));
+  }
+  return cards;
+}
+
+const toPng = (svg: string) => sharp(Buffer.from(svg)).png().toBuffer();
+
+export default function ogPlugin(options: { dir?: string; css?: string } = {}): Plugin {
+  let dir = "";
+  let cssFile = "";
+  let ssr = false;
+  let drafts = false;
+
+  return {
+    name: "portfolio-og",
+    configResolved(config) {
+      dir = path.resolve(config.root, options.dir ?? "content");
+      cssFile = path.resolve(config.root, options.css ?? "src/index.css");
+      ssr = Boolean(config.build.ssr);
+      drafts = !config.isProduction;
+    },
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = (req.url ?? "").split("?")[0];
+        if (!url.startsWith(`/${OG_DIR}/`)) return next();
+        try {
+          const svg = cardSources(loadContent(dir, { drafts }), cssFile).get(url.slice(1));
+          if (!svg) return next();
+          res.setHeader("content-type", "image/png");
+          res.end(await toPng(svg));
+        } catch (err) {
+          next(err);
+        }
+      });
+    },
+    async generateBundle() {
+      if (ssr) return;
+      // Invalid content has already failed the build in the content plugin.
+      const cards = cardSources(loadContent(dir, { drafts: false }), cssFile);
+      for (const [fileName, svg] of cards) this.emitFile({ type: "asset", fileName, source: await toPng(svg) });
+    },
+  };
+}
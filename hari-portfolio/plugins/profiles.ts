@@ -0,0 +1,50 @@
+import { existsSync, readdirSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * Several portfolios from one codebase. The default profile is content/ and
+ * public/ at the project root and builds into dist/. Every other profile is a
+ * directory profiles/<id>/ with its own content/ and public/, and builds into
+ * profiles/<id>/dist/. `PORTFOLIO_PROFILE=<id>` selects one for `npm run dev`,
+ * `build`, `a11y`, `budget`, `content:check` and `github:import`;
+ * `npm run profile:new` scaffolds a new one and `npm run build:profiles`
+ * builds them all.
+ */
+
+export const PROFILE_ENV = "PORTFOLIO_PROFILE";
+export const PROFILES_DIR = "profiles";
+
+/** Where a profile's files live, relative to the project root as Vite options take them. */
+export interface ProfileDirs {
+  /** Undefined for the default profile. */
+  id?: string;
+  content: string;
+  public: string;
+  outDir: string;
+  /** Server entry for prerendering; removed once the pages are written. */
+  ssrOutDir: string;
+}
+
+export const DEFAULT_PROFILE_DIRS: ProfileDirs = { content: "content", public: "public", outDir: "dist", ssrOutDir: "dist-ssr" };
+
+/** Ids of the profiles under profiles/, sorted. */
+export function profileIds(root: string): string[] {
+  const dir = path.join(root, PROFILES_DIR);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/** The directories of profile `id`, by default the one named in PORTFOLIO_PROFILE. */
+export function profileDirs(root: string, id = process.env[PROFILE_ENV] || undefined): ProfileDirs {
+  if (!id) return DEFAULT_PROFILE_DIRS;
+  const ids = profileIds(root);
+  if (!ids.includes(id)) {
+    const known = ids.length ? ids.join(", ") : "none yet; run `npm run profile:new`";
+    throw new Error(`${PROFILE_ENV}=${id}: there is no ${PROFILES_DIR}/${id}/ (profiles: ${known})`);
+  }
+  const base = `${PROFILES_DIR}/${id}`;
+  return { id, content: `${base}/content`, public: `${base}/public`, outDir: `${base}/dist`, ssrOutDir: `${base}/dist-ssr` };
+}
@@ -0,0 +1,232 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+import type { Plugin } from "vite";
+import { offlineRoutes, prerenderRoutes } from "../src/lib/head";
+import { DEFAULT_LOCALE } from "../src/lib/locale";
+import { OG_DIR } from "../src/lib/og";
+import { FAVICON_FILE, ICON_DIR, MANIFEST_FILE, OFFLINE_PATH, SKIP_WAITING, SW_FILE } from "../src/lib/pwa";
+import { loadContent } from "./content";
+import { publicFiles } from "./images";
+
+/**
+ * Vite plugin for the installable app (see src/lib/pwa.ts). Renders the
+ * favicon and app icons from content/logo.svg, writes the web app manifest
+ * from profile.yaml, and generates `sw.js` with the list of files to precache:
+ * every prerendered page, the offline pages, the bundle's scripts, styles,
+ * fonts and images, and the images under public/. The dev server serves the
+ * icons and manifest but no service worker.
+ */
+
+const LOGO_FILE = "logo.svg";
+
+// neutral-50 / neutral-950, the page backgrounds in light and dark mode.
+const LIGHT = "#fafafa";
+const DARK = "#0a0a0a";
+
+interface Icon {
+  file: string;
+  size: number;
+  purpose: "any" | "maskable";
+}
+
+const ICONS: Icon[] = [
+  { file: "icon-192.png", size: 192, purpose: "any" },
+  { file: "icon-512.png", size: 512, purpose: "any" },
+  { file: "maskable-512.png", size: 512, purpose: "maskable" },
+];
+// iOS ignores the manifest and rounds the corners itself.
+const APPLE_ICON = "apple-touch-icon.png";
+
+const PRECACHED = /\.(js|css|woff2?|ttf|otf|avif|webp|png|jpe?g|gif|svg|webmanifest)$/i;
+
+// Cached pages are served when the network hasn't answered a navigation in this long.
+const NETWORK_TIMEOUT_MS = 3000;
+
+// Share of a maskable icon the logo fills; launchers may crop to a circle 80% across.
+const MASKABLE_SCALE = 0.7;
+
+/** The logo as a PNG. Apple and maskable icons sit on the dark background, as launchers fill transparency unpredictably. */
+async function renderIcon(logo: Buffer, size: number, kind: Icon["purpose"] | "apple"): Promise<Buffer> {
+  const art = sharp(logo, { density: 300 }).resize(Math.round(kind === "maskable" ? size * MASKABLE_SCALE : size));
+  if (kind === "any") return art.png().toBuffer();
+  if (kind === "apple") return art.flatten({ background: DARK }).png().toBuffer();
+  return sharp({ create: { width: size, height: size, channels: 4, background: DARK } })
+    .composite([{ input: await art.png().toBuffer(), gravity: "center" }])
+    .png()
+    .toBuffer();
+}
+
+/** Every generated icon, keyed by its path under the site root. */
+async function renderIcons(logo: Buffer): Promise<Map<string, Buffer>> {
+  const icons = new Map<string, Buffer>();
+  for (const icon of ICONS) icons.set(`${ICON_DIR}/${icon.file}`, await renderIcon(logo, icon.size, icon.purpose));
+  icons.set(`${ICON_DIR}/${APPLE_ICON}`, await renderIcon(logo, 180, "apple"));
+  return icons;
+}
+
+function renderManifest(profile: { name: string; seo: { description: string } }): string {
+  const manifest = {
+    id: "/",
+    name: profile.name,
+    short_name: profile.name,
+    description: profile.seo.description,
+    lang: DEFAULT_LOCALE,
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: DARK,
+    theme_color: DARK,
+    icons: ICONS.map((i) => ({ src: `/${ICON_DIR}/${i.file}`, sizes: `${i.size}x${i.size}`, type: "image/png", purpose: i.purpose })),
+  };
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+/**
+ * The service worker. Pages are network-first, falling back to the cache
+ * (straight away once the network is slower than NETWORK_TIMEOUT_MS) and then
+ * to the offline page for the URL's locale. Everything else is cache-first:
+ * asset names carry content hashes, and a cache only ever holds one build.
+ */
+function renderServiceWorker(version: string, precache: string[], offline: { prefix: string; page: string }[]): string {
+  return `// Generated by plugins/pwa.ts for build ${version}.
+const CACHE = "portfolio-${version}";
+const PRECACHE = ${JSON.stringify(precache)};
+const OFFLINE = ${JSON.stringify(offline)};
+const NETWORK_TIMEOUT_MS = ${NETWORK_TIMEOUT_MS};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith("portfolio-") && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data === ${JSON.stringify(SKIP_WAITING)}) self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+  event.respondWith(request.mode === "navigate" ? page(request, url) : asset(request));
+});
+
+async function page(request, url) {
+  const cache = await caches.open(CACHE);
+  const key = url.pathname.replace(/\\/+$/, "") || "/";
+  const network = fetch(request).then((response) => {
+    if (response.ok) cache.put(key, response.clone());
+    return response;
+  });
+  const cached = await cache.match(key);
+  if (cached) {
+    const timeout = new Promise((resolve) => setTimeout(() => resolve(cached), NETWORK_TIMEOUT_MS));
+    return Promise.race([network.catch(() => cached), timeout]);
+  }
+  try {
+    return await network;
+  } catch (err) {
+    const fallback = OFFLINE.find((o) => key === o.prefix || key.startsWith(o.prefix + "/")) ?? OFFLINE[OFFLINE.length - 1];
+    const offline = await cache.match(fallback.page);
+    if (offline) return offline;
+    throw err;
+  }
+}
+
+async function asset(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && response.type === "basic") cache.put(request, response.clone());
+  return response;
+}
+`;
+}
+
+export default function pwaPlugin(options: { dir?: string } = {}): Plugin {
+  let dir = "";
+  let publicDir = "";
+  let ssr = false;
+
+  const logo = () => readFileSync(path.join(dir, LOGO_FILE));
+
+  return {
+    name: "portfolio-pwa",
+    configResolved(config) {
+      dir = path.resolve(config.root, options.dir ?? "content");
+      publicDir = config.publicDir;
+      ssr = Boolean(config.build.ssr);
+    },
+    transformIndexHtml() {
+      return [
+        { tag: "link", attrs: { rel: "icon", type: "image/svg+xml", href: `/${FAVICON_FILE}` }, injectTo: "head" },
+        { tag: "link", attrs: { rel: "apple-touch-icon", href: `/${ICON_DIR}/${APPLE_ICON}` }, injectTo: "head" },
+        { tag: "link", attrs: { rel: "manifest", href: `/${MANIFEST_FILE}` }, injectTo: "head" },
+        { tag: "meta", attrs: { name: "theme-color", content: LIGHT, media: "(prefers-color-scheme: light)" }, injectTo: "head" },
+        { tag: "meta", attrs: { name: "theme-color", content: DARK, media: "(prefers-color-scheme: dark)" }, injectTo: "head" },
+      ];
+    },
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = (req.url ?? "").split("?")[0].slice(1);
+        try {
+          if (url === FAVICON_FILE) {
+            res.setHeader("content-type", "image/svg+xml");
+            res.end(logo());
+          } else if (url === MANIFEST_FILE) {
+            res.setHeader("content-type", "application/manifest+json");
+            res.end(renderManifest(loadContent(dir, { drafts: true }).profile));
+          } else if (url.startsWith(`${ICON_DIR}/`)) {
+            const icon = (await renderIcons(logo())).get(url);
+            if (!icon) return next();
+            res.setHeader("content-type", "image/png");
+            res.end(icon);
+          } else {
+            next();
+          }
+        } catch (err) {
+          next(err);
+        }
+      });
+    },
+    generateBundle: {
+      // After the other plugins have emitted their images, so they are precached too.
+      order: "post",
+      async handler(_, bundle) {
+        if (ssr) return;
+        // Invalid content has already failed the build in the content plugin.
+        const content = loadContent(dir, { drafts: false });
+        const source = logo();
+        this.emitFile({ type: "asset", fileName: FAVICON_FILE, source });
+        for (const [fileName, icon] of await renderIcons(source)) this.emitFile({ type: "asset", fileName, source: icon });
+        this.emitFile({ type: "asset", fileName: MANIFEST_FILE, source: renderManifest(content.profile) });
+
+        // Emitted file names carry content hashes, so together they identify the build.
+        const files = Object.keys(bundle).sort();
+        const version = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12);
+        const pages = [...prerenderRoutes(content), ...offlineRoutes];
+        const precache = [
+          ...pages,
+          // Social cards are only fetched by link-preview crawlers.
+          ...files.filter((f) => PRECACHED.test(f) && !f.startsWith(`${OG_DIR}/`)).map((f) => `/${f}`),
+          ...publicFiles(publicDir).filter((f) => PRECACHED.test(f)),
+        ];
+        // Longest prefix first, so "/es/..." finds its own page before the root's.
+        const offline = offlineRoutes
+          .map((page) => ({ prefix: page.slice(0, -OFFLINE_PATH.length), page }))
+          .sort((a, b) => b.prefix.length - a.prefix.length);
+        this.emitFile({ type: "asset", fileName: SW_FILE, source: renderServiceWorker(version, [...new Set(precache)], offline) });
+      },
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import path from "node:path";
+import { PDFDocument, PDFFont, StandardFonts, rgb, type PDFPage } from "pdf-lib";
+import type { Plugin } from "vite";
+import { RESUME_JSON_FILE, RESUME_PDF_FILE, toJsonResume, type JsonResume } from "../src/lib/resume";
+import { loadContent } from "./content";
+
+/**
+ * Vite plugin that writes the résumé downloads: `resume.json` (JSON Resume)
+ * and `resume.pdf`, laid out here with pdf-lib so the build needs no browser
+ * or network. The dev server serves both from the current content.
+ */
+
+// US Letter, in PDF points.
+const PAGE = { width: 612, height: 792, margin: 54 };
+const INK = rgb(0.09, 0.09, 0.11);
+const MUTED = rgb(0.38, 0.38, 0.42);
+
+// The standard PDF fonts only cover Windows-1252; swap the usual outliers.
+const REPLACEMENTS: Record<string, string> = { "‐": "-", "‑": "-", "−": "-", "→": "->", "←": "<-" };
+
+function yearOf(date: string | undefined): string {
+  return date ? date.slice(0, 4) : "";
+}
+
+class PdfWriter {
+  private page: PDFPage;
+  private y = PAGE.height - PAGE.margin;
+  private readonly doc: PDFDocument;
+  private readonly fonts: { regular: PDFFont; bold: PDFFont };
+
+  constructor(doc: PDFDocument, fonts: { regular: PDFFont; bold: PDFFont }) {
+    this.doc = doc;
+    this.fonts = fonts;
+    this.page = doc.addPage([PAGE.width, PAGE.height]);
+  }
+
+  private safe(text: string, font: PDFFont): string {
+    return [...text]
+      .map((ch) => {
+        const swapped = REPLACEMENTS[ch] ?? ch;
+        try {
+          font.encodeText(swapped);
+          return swapped;
+        } catch {
+          return "?";
+        }
+      })
+      .join("");
+  }
+
+  private ensure(height: number) {
+    if (this.y - height >= PAGE.margin) return;
+    this.page = this.doc.addPage([PAGE.width, PAGE.height]);
+    this.y = PAGE.height - PAGE.margin;
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(next, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  /** A wrapped paragraph; `indent` shifts it right (bullets), `aside` is right-aligned on the first line. */
+  text(value: string, opts: { size?: number; bold?: boolean; color?: typeof INK; indent?: number; aside?: string; gap?: number } = {}) {
+    const { size = 10, bold = false, color = INK, indent = 0, aside, gap = 2 } = opts;
+    const font = bold ? this.fonts.bold : this.fonts.regular;
+    const asideText = aside ? this.safe(aside, this.fonts.regular) : "";
+    const asideWidth = asideText ? this.fonts.regular.widthOfTextAtSize(asideText, size) + 12 : 0;
+    const width = PAGE.width - 2 * PAGE.margin - indent;
+    const lines = this.wrap(this.safe(value, font), font, size, width - asideWidth);
+    const leading = size * 1.35;
+
+    lines.forEach((line, i) => {
+      this.ensure(leading);
+      this.y -= size;
+      this.page.drawText(line, { x: PAGE.margin + indent, y: this.y, size, font, color });
+      if (i === 0 && asideText) {
+        const x = PAGE.width - PAGE.margin - this.fonts.regular.widthOfTextAtSize(asideText, size);
+        this.page.drawText(asideText, { x, y: this.y, size, font: this.fonts.regular, color: MUTED });
+      }
+      this.y -= leading - size;
+    });
+    this.y -= gap;
+  }
+
+  space(points: number) {
+    this.y -= points;
+  }
+
+  bullet(value: string) {
+    this.ensure(14);
+    this.page.drawText("•", { x: PAGE.margin + 4, y: this.y - 10, size: 10, font: this.fonts.regular, color: MUTED });
+    this.text(value, { indent: 14, gap: 1 });
+  }
+
+  heading(value: string) {
+    this.ensure(40);
+    this.y -= 12;
+    this.text(value.toUpperCase(), { size: 10, bold: true, color: MUTED, gap: 0 });
+    this.page.drawLine({
+      start: { x: PAGE.margin, y: this.y },
+      end: { x: PAGE.width - PAGE.margin, y: this.y },
+      thickness: 0.5,
+      color: MUTED,
+    });
+    this.y -= 8;
+  }
+}
+
+export async function renderResumePdf(resume: JsonResume): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const { basics } = resume;
+  doc.setTitle(`${basics.name} — Résumé`);
+  doc.setAuthor(basics.name);
+  doc.setSubject(basics.label);
+  doc.setKeywords(resume.skills.flatMap((s) => s.keywords));
+  // Fixed dates keep the file byte-identical between builds of the same content.
+  doc.setCreationDate(new Date(0));
+  doc.setModificationDate(new Date(0));
+
+  const pdf = new PdfWriter(doc, {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  });
+
+  pdf.text(basics.name, { size: 22, bold: true, gap: 4 });
+  pdf.text(basics.label, { size: 12, color: MUTED, gap: 4 });
+  pdf.text([basics.email, basics.url, ...basics.profiles.map((p) => p.url)].join("  ·  "), { size: 9, color: MUTED });
+
+  if (basics.summary) {
+    pdf.heading("Summary");
+    for (const paragraph of basics.summary.split("\n\n")) pdf.text(paragraph, { gap: 6 });
+  }
+
+  if (resume.work.length) {
+    pdf.heading("Experience");
+    for (const w of resume.work) {
+      const dates = `${yearOf(w.startDate)} – ${w.endDate ? yearOf(w.endDate) : "Present"}`;
+      pdf.text(`${w.position}, ${w.name}`, { bold: true, aside: dates });
+      w.highlights.forEach((h) => pdf.bullet(h));
+      pdf.space(6);
+    }
+  }
+
+  if (resume.projects.length) {
+    pdf.heading("Projects");
+    for (const p of resume.projects) {
+      pdf.text(p.name, { bold: true, aside: yearOf(p.startDate) || undefined });
+      pdf.text(p.description);
+      if (p.keywords.length) pdf.text(p.keywords.join(" · "), { size: 9, color: MUTED, gap: 8 });
+    }
+  }
+
+  if (resume.skills.length) {
+    pdf.heading("Skills");
+    for (const s of resume.skills) pdf.text(`${s.name}: ${s.keywords.join(", ")}`, { gap: 4 });
+  }
+
+  return doc.save();
+}
+
+export default function resumePlugin(options: { dir?: string } = {}): Plugin {
+  let dir = "";
+  let ssr = false;
+  let drafts = false;
+
+  return {
+    name: "portfolio-resume",
+    configResolved(config) {
+      dir = path.resolve(config.root, options.dir ?? "content");
+      ssr = Boolean(config.build.ssr);
+      drafts = !config.isProduction;
+    },
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = (req.url ?? "").split("?")[0];
+        if (url !== `/${RESUME_JSON_FILE}` && url !== `/${RESUME_PDF_FILE}`) return next();
+        try {
+          const resume = toJsonResume(loadContent(dir, { drafts }));
+          if (url.endsWith(".json")) {
+            res.setHeader("content-type", "application/json");
+            res.end(JSON.stringify(resume, null, 2));
+          } else {
+            res.setHeader("content-type", "application/pdf");
+            res.end(await renderResumePdf(resume));
+          }
+        } catch (err) {
+          next(err);
+        }
+      });
+    },
+    async generateBundle() {
+      if (ssr) return;
+      // Invalid content has already failed the build in the content plugin.
+      const resume = toJsonResume(loadContent(dir, { drafts: false }));
+      this.emitFile({ type: "asset", fileName: RESUME_JSON_FILE, source: `${JSON.stringify(resume, null, 2)}\n` });
+      this.emitFile({ type: "asset", fileName: RESUME_PDF_FILE, source: await renderResumePdf(resume) });
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { Plugin } from "vite";
+import { CONTENT_FILES, validateContentFile } from "../src/content/schema";
+import { DEFAULT_PALETTE, themeBootScript, type PaletteId } from "../src/lib/theme-boot";
+
+/** The palette chosen in profile.yaml. A broken file is reported by the content plugin, so this just falls back. */
+function profilePalette(dir: string): PaletteId {
+  try {
+    const raw: unknown = parseYaml(readFileSync(path.join(dir, CONTENT_FILES.profile), "utf8"));
+    return validateContentFile("profile", raw).value.palette;
+  } catch {
+    return DEFAULT_PALETTE;
+  }
+}
+
+/** Inlines the theme boot script at the top of <head> so the saved theme applies before first paint. */
+export default function themePlugin(options: { dir?: string } = {}): Plugin {
+  let dir = "";
+
+  return {
+    name: "portfolio-theme",
+    configResolved(config) {
+      dir = path.resolve(config.root, options.dir ?? "content");
+    },
+    transformIndexHtml() {
+      return [{ tag: "script", children: themeBootScript(profilePalette(dir)), injectTo: "head-prepend" }];
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import axe from "axe-core";
+import { JSDOM } from "jsdom";
+import { profileDirs } from "../plugins/profiles";
+
+/**
+ * Build step and `npm run a11y`: runs axe-core in jsdom over every
+ * prerendered page in dist/ and exits non-zero on any violation, so an
+ * accessibility regression fails the build. `npm run a11y` re-checks an
+ * existing build. `PORTFOLIO_PROFILE` checks that profile's build instead.
+ *
+ * jsdom doesn't lay pages out, so rules that need rendering (color contrast)
+ * are off; everything structural — labels, landmarks, ARIA references,
+ * heading order, alt text — is checked against the markup visitors receive.
+ */
+
+const dist = path.join(process.cwd(), profileDirs(process.cwd()).outDir);
+
+// Rules that depend on computed layout or colors, which jsdom doesn't provide.
+const DISABLED_RULES = ["color-contrast", "color-contrast-enhanced"];
+
+function htmlFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === "assets" ? [] : htmlFiles(file);
+    return entry.name.endsWith(".html") ? [file] : [];
+  });
+}
+
+async function check(file: string): Promise<axe.Result[]> {
+  const dom = new JSDOM(readFileSync(file, "utf8"), { runScripts: "outside-only", url: "https://example.com/" });
+  try {
+    dom.window.eval(axe.source);
+    const runner = (dom.window as unknown as { axe: typeof axe }).axe;
+    const results = await runner.run(dom.window.document, {
+      rules: Object.fromEntries(DISABLED_RULES.map((id) => [id, { enabled: false }])),
+      resultTypes: ["violations"],
+    });
+    return results.violations;
+  } finally {
+    dom.window.close();
+  }
+}
+
+let pages: string[];
+try {
+  pages = htmlFiles(dist).sort();
+} catch {
+  console.error("dist/ not found; run `npm run build` first.");
+  process.exit(1);
+}
+
+let failures = 0;
+for (const file of pages) {
+  const violations = await check(file);
+  const name = path.relative(process.cwd(), file);
+  if (!violations.length) {
+    console.log(`✓ ${name}`);
+    continue;
+  }
+  failures += violations.length;
+  console.error(`✗ ${name}`);
+  for (const v of violations) {
+    console.error(`  [${v.impact ?? "minor"}] ${v.id}: ${v.help}`);
+    for (const node of v.nodes) console.error(`      ${node.target.join(" ")}`);
+  }
+}
+
+if (failures) {
+  console.error(`\n${failures} accessibility violation${failures === 1 ? "" : "s"} in ${pages.length} pages.`);
+  process.exit(1);
+}
+console.log(`\nNo accessibility violations in ${pages.length} pages.`);
@@ -0,0 +1,164 @@
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import { gzipSync } from "node:zlib";
+import { JSDOM } from "jsdom";
+import { profileDirs } from "../plugins/profiles";
+
+/**
+ * Build step and `npm run budget`: checks every prerendered page against the
+ * performance budgets in budget.json and fails when one is over.
+ *
+ * budget.json uses Lighthouse's format (https://web.dev/articles/use-lighthouse-for-performance-budgets),
+ * so the same file works with `lighthouse --budget-path`. Without a browser
+ * there are no timings; instead each page's initial load is read from its
+ * HTML: the document, its scripts, module preloads and stylesheets, and the
+ * images that aren't lazy-loaded (the largest candidate of each, as a
+ * high-density screen would fetch). Text is measured gzipped, as it is
+ * served. Code-split chunks aren't part of any page's initial load, so each
+ * of those has to stay under MAX_CHUNK_KIB on its own.
+ * `PORTFOLIO_PROFILE` checks that profile's build.
+ */
+
+type ResourceType = "document" | "script" | "stylesheet" | "image" | "font" | "other" | "third-party" | "total";
+
+interface Budget {
+  path?: string;
+  resourceSizes?: { resourceType: ResourceType; budget: number }[];
+  resourceCounts?: { resourceType: ResourceType; budget: number }[];
+  timings?: unknown[];
+}
+
+interface Resource {
+  url: string;
+  type: Exclude<ResourceType, "third-party" | "total">;
+  bytes: number;
+}
+
+const MAX_CHUNK_KIB = 60;
+const KIB = 1024;
+
+// <link rel="preload" as="…"> values and the budget type they count towards.
+const PRELOAD_TYPES: Record<string, Resource["type"]> = { script: "script", style: "stylesheet", image: "image", font: "font" };
+
+const root = process.cwd();
+const dist = path.join(root, profileDirs(root).outDir);
+const budgets = JSON.parse(readFileSync(path.join(root, "budget.json"), "utf8")) as Budget[];
+
+function htmlFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === "assets" ? [] : htmlFiles(file);
+    return entry.name.endsWith(".html") ? [file] : [];
+  });
+}
+
+/** The URL path a page is served at: dist/index.html is "/", dist/es/resume.html is "/es/resume". */
+function pagePath(file: string): string {
+  const rel = path.relative(dist, file).split(path.sep).join("/").replace(/\.html$/, "");
+  return rel === "index" ? "/" : `/${rel.replace(/\/index$/, "")}`;
+}
+
+const external = (url: string) => /^(https?:)?\/\//.test(url);
+
+/** Bytes a file in dist/ takes over the wire; undefined for URLs on other sites. */
+function transferSize(url: string, type: Resource["type"]): number | undefined {
+  if (external(url)) return undefined;
+  const file = path.join(dist, decodeURIComponent(url.split(/[?#]/)[0]));
+  try {
+    return type === "image" || type === "font" ? statSync(file).size : gzipSync(readFileSync(file)).length;
+  } catch {
+    throw new Error(`${url} is referenced by a page but is not in ${path.relative(root, dist)}/`);
+  }
+}
+
+/** The largest candidate of a srcset, by its width descriptor. */
+function largest(srcset: string): string | undefined {
+  const candidates = srcset.split(",").map((c) => c.trim().split(/\s+/));
+  candidates.sort((a, b) => parseFloat(b[1] ?? "1") - parseFloat(a[1] ?? "1"));
+  return candidates[0]?.[0];
+}
+
+function initialLoad(file: string): Resource[] {
+  const html = readFileSync(file);
+  const { document } = new JSDOM(html).window;
+  const resources: Resource[] = [{ url: pagePath(file), type: "document", bytes: gzipSync(html).length }];
+  const add = (url: string | null | undefined, type: Resource["type"]) => {
+    if (url && !resources.some((r) => r.url === url)) resources.push({ url, type, bytes: transferSize(url, type) ?? 0 });
+  };
+
+  document.querySelectorAll("script[src]").forEach((el) => add(el.getAttribute("src"), "script"));
+  document.querySelectorAll('link[rel="modulepreload"]').forEach((el) => add(el.getAttribute("href"), "script"));
+  document.querySelectorAll('link[rel="stylesheet"]').forEach((el) => add(el.getAttribute("href"), "stylesheet"));
+  document.querySelectorAll('link[rel="preload"]').forEach((el) => {
+    add(el.getAttribute("href"), PRELOAD_TYPES[el.getAttribute("as") ?? ""] ?? "other");
+  });
+  document.querySelectorAll("img:not([loading=lazy])").forEach((img) => {
+    const source = img.parentElement?.tagName === "PICTURE" ? img.parentElement.querySelector("source[srcset]") : null;
+    const srcset = source?.getAttribute("srcset") ?? img.getAttribute("srcset");
+    add((srcset && largest(srcset)) || img.getAttribute("src"), "image");
+  });
+  return resources;
+}
+
+/** The budget for a page: the last one whose `path` matches, as in Lighthouse. */
+function budgetFor(page: string): Budget | undefined {
+  const matches = budgets.filter(({ path: pattern = "/" }) => {
+    const exact = pattern.endsWith("$");
+    const body = (exact ? pattern.slice(0, -1) : pattern).replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+    return new RegExp(`^${body}${exact ? "$" : ""}`).test(page);
+  });
+  return matches[matches.length - 1];
+}
+
+function tally(resources: Resource[], type: ResourceType): { bytes: number; count: number } {
+  const matching = resources.filter((r) =>
+    type === "total" ? true : type === "third-party" ? external(r.url) : r.type === type,
+  );
+  return { bytes: matching.reduce((sum, r) => sum + r.bytes, 0), count: matching.length };
+}
+
+const kib = (bytes: number) => `${(bytes / KIB).toFixed(1)} KiB`;
+
+if (budgets.some((b) => b.timings?.length)) {
+  console.warn("budget: timings need a browser (Lighthouse); only resource sizes and counts are checked here");
+}
+
+const problems: string[] = [];
+// The most used of each budget, for the summary.
+const peaks = new Map<string, { used: string; budget: string; page: string; share: number }>();
+const initial = new Set<string>();
+
+const pages = htmlFiles(dist).map((file) => ({ page: pagePath(file), resources: initialLoad(file) }));
+for (const { page, resources } of pages) {
+  resources.forEach((r) => initial.add(r.url));
+  const budget = budgetFor(page);
+  if (!budget) continue;
+  const check = (key: string, used: number, limit: number, show: (n: number) => string) => {
+    if (used > limit) problems.push(`${page}: ${key} is ${show(used)}, over the budget of ${show(limit)}`);
+    const share = limit ? used / limit : used ? Infinity : 0;
+    if (share >= (peaks.get(key)?.share ?? -1)) peaks.set(key, { used: show(used), budget: show(limit), page, share });
+  };
+  for (const { resourceType, budget: limit } of budget.resourceSizes ?? []) {
+    check(`${resourceType} size`, tally(resources, resourceType).bytes, limit * KIB, kib);
+  }
+  for (const { resourceType, budget: limit } of budget.resourceCounts ?? []) {
+    check(`${resourceType} count`, tally(resources, resourceType).count, limit, String);
+  }
+}
+
+const chunks = readdirSync(path.join(dist, "assets"))
+  .filter((name) => name.endsWith(".js") && !initial.has(`/assets/${name}`))
+  .map((name) => ({ name, bytes: transferSize(`/assets/${name}`, "script")! }))
+  .sort((a, b) => b.bytes - a.bytes);
+for (const { name, bytes } of chunks) {
+  if (bytes > MAX_CHUNK_KIB * KIB) problems.push(`assets/${name}: code-split chunk is ${kib(bytes)}, over ${MAX_CHUNK_KIB} KiB`);
+}
+
+console.log(`budget: ${pages.length} pages checked against budget.json`);
+for (const [key, { used, budget, page }] of peaks) console.log(`  ${key.padEnd(20)} ${used} of ${budget} (${page})`);
+if (chunks.length) console.log(`  ${"largest lazy chunk".padEnd(20)} ${kib(chunks[0].bytes)} of ${MAX_CHUNK_KIB} KiB (${chunks[0].name})`);
+
+if (problems.length) {
+  console.error(`\nOver budget (${problems.length}):\n${problems.map((p) => `  ${p}`).join("\n")}`);
+  process.exit(1);
+}
@@ -0,0 +1,27 @@
+import { spawnSync } from "node:child_process";
+import { DEFAULT_PROFILE_DIRS, PROFILE_ENV, profileDirs, profileIds } from "../plugins/profiles";
+
+/**
+ * `npm run build:profiles`: runs `npm run build` for the default profile and
+ * then for every profile under profiles/, one after another, so each gets its
+ * own site (see plugins/profiles.ts). Stops at the first build that fails.
+ */
+
+const root = process.cwd();
+const profiles: (string | undefined)[] = [undefined, ...profileIds(root)];
+
+for (const id of profiles) {
+  console.log(`\n── ${id ?? "default profile"} ${"─".repeat(60)}\n`);
+  const { status } = spawnSync("npm", ["run", "build"], {
+    stdio: "inherit",
+    env: { ...process.env, [PROFILE_ENV]: id ?? "" },
+    shell: process.platform === "win32",
+  });
+  if (status !== 0) {
+    console.error(`\nBuilding ${id ?? "the default profile"} failed.`);
+    process.exit(status ?? 1);
+  }
+}
+
+const outDirs = profiles.map((id) => (id ? profileDirs(root, id) : DEFAULT_PROFILE_DIRS).outDir);
+console.log(`\nBuilt ${profiles.length} sites:\n${outDirs.map((dir) => `  ${dir}/`).join("\n")}`);
@@ -0,0 +1,114 @@
+import { readdirSync } from "node:fs";
+import path from "node:path";
+import { loadContent } from "../plugins/content";
+import { ATOM_FILE, RSS_FILE } from "../plugins/feeds";
+import { profileDirs } from "../plugins/profiles";
+import { contentLinks, lintContent, linkProblem, type ContentLink } from "../src/content/lint";
+import { ContentError, formatIssues, type ContentIssue, type SiteContent } from "../src/content/schema";
+import { offlineRoutes, prerenderRoutes } from "../src/lib/head";
+import { FAVICON_FILE, MANIFEST_FILE } from "../src/lib/pwa";
+import { RESUME_JSON_FILE, RESUME_PDF_FILE } from "../src/lib/resume";
+
+/**
+ * Build step and `npm run content:check`: lints the content for things that
+ * build fine but shouldn't ship (see src/content/lint.ts), then requests every
+ * external link and reports the ones that fail.
+ *
+ * Findings are printed as warnings. `--strict` (or `CONTENT_CHECK=strict`)
+ * makes any finding fail the command, and so the build. Vercel production
+ * builds (`VERCEL_ENV=production`) are always strict; local builds and
+ * preview deploys only warn. `--offline` (or `CONTENT_CHECK=offline`) skips
+ * the external links, for builds without network access; the two combine as
+ * `CONTENT_CHECK=strict,offline`. `PORTFOLIO_PROFILE` checks that profile.
+ */
+
+const TIMEOUT_MS = 8000;
+const CONCURRENCY = 4;
+// Sites that turn away scripted requests (LinkedIn answers 999) can't be checked this way.
+const UNVERIFIABLE = new Set([401, 403, 429, 999]);
+
+const modes = (process.env.CONTENT_CHECK ?? "").split(",").map((m) => m.trim());
+const strict = modes.includes("strict") || process.argv.includes("--strict") || process.env.VERCEL_ENV === "production";
+const offline = modes.includes("offline") || process.argv.includes("--offline");
+
+const root = process.cwd();
+const profile = profileDirs(root);
+
+// Written into the site root by the build rather than copied from public/.
+const GENERATED = [RESUME_PDF_FILE, RESUME_JSON_FILE, RSS_FILE, ATOM_FILE, FAVICON_FILE, MANIFEST_FILE, "sitemap.xml", "robots.txt"];
+
+function siteFiles(dir: string, prefix = ""): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      const rel = `${prefix}/${entry.name}`;
+      return entry.isDirectory() ? siteFiles(path.join(dir, entry.name), rel) : [rel];
+    });
+  } catch {
+    return [];
+  }
+}
+
+/** Why a URL can't be opened, or undefined when it can (or can't be told). */
+async function deadLink(url: string): Promise<string | undefined> {
+  try {
+    const options = { redirect: "follow", signal: AbortSignal.timeout(TIMEOUT_MS) } as const;
+    let response = await fetch(url, { ...options, method: "HEAD" });
+    // Some servers don't implement HEAD.
+    if (response.status === 405 || response.status === 501) response = await fetch(url, options);
+    if (response.ok || UNVERIFIABLE.has(response.status)) return undefined;
+    return `answered ${response.status} ${response.statusText}`.trim();
+  } catch (err) {
+    const cause = (err as Error & { cause?: Error }).cause;
+    return `could not be reached (${cause?.message ?? (err as Error).message})`;
+  }
+}
+
+async function externalIssues(links: ContentLink[]): Promise<ContentIssue[]> {
+  const urls = [...new Set(links.map((l) => l.value))];
+  const results = new Map<string, string | undefined>();
+  const queue = [...urls];
+  await Promise.all(
+    Array.from({ length: CONCURRENCY }, async () => {
+      for (let url = queue.shift(); url; url = queue.shift()) results.set(url, await deadLink(url));
+    }),
+  );
+  return links.flatMap(({ file, path, value }) => {
+    const problem = results.get(value);
+    return problem ? [{ file, path, message: `${problem}: ${value}` }] : [];
+  });
+}
+
+function load(): SiteContent {
+  try {
+    return loadContent(path.join(root, profile.content), { drafts: false });
+  } catch (err) {
+    if (!(err instanceof ContentError)) throw err;
+    // The build reports these too, but a check that can't read the content has failed.
+    console.error(err.message);
+    process.exit(1);
+  }
+}
+
+const content = load();
+const context = {
+  files: new Set([...siteFiles(path.join(root, profile.public)), ...GENERATED.map((f) => `/${f}`)]),
+  routes: new Set([...prerenderRoutes(content), ...offlineRoutes]),
+};
+const issues = lintContent(content, context);
+// Links with a problem already reported (placeholders, malformed URLs) aren't fetched.
+const external = contentLinks(content).filter(
+  (l) => l.kind !== "email" && /^https?:\/\//.test(l.value) && !linkProblem(l, content, context),
+);
+if (!offline) issues.push(...(await externalIssues(external)));
+
+const urls = new Set(external.map((l) => l.value)).size;
+const checked = offline ? "external links skipped" : `${urls} external link${urls === 1 ? "" : "s"} checked`;
+if (!issues.length) {
+  console.log(`content: no problems found (${checked})`);
+} else if (strict) {
+  console.error(formatIssues(issues, "Content problems (strict mode)", profile.content));
+  process.exit(1);
+} else {
+  console.warn(formatIssues(issues, "Content problems", profile.content));
+  console.warn(`(${checked}; run with --strict or CONTENT_CHECK=strict to fail on these)`);
+}
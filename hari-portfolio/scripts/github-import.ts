@@ -0,0 +1,128 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { profileDirs } from "../plugins/profiles";
+import {
+  CONTENT_FILES,
+  GITHUB_SNAPSHOT_FILE,
+  validateGithubSnapshot,
+  type GithubSnapshot,
+  type RepoInfo,
+} from "../src/content/schema";
+
+/**
+ * Build step: import GitHub details (description, languages, stars, last push,
+ * topics) for every project with a `repo` into content/github.json.
+ *
+ * The snapshot is committed, so the site never needs the network to build:
+ * a repo that can't be fetched keeps its cached entry, and
+ * `GITHUB_IMPORT=offline` (or `--offline`) skips fetching altogether.
+ * `PORTFOLIO_PROFILE` imports into that profile's content instead.
+ * `GITHUB_API_URL` points the importer at another API, such as the local
+ * stand-in from `npm run github:stand-in`; `GITHUB_TOKEN` raises rate limits.
+ */
+
+interface RepoResponse {
+  html_url: string;
+  description: string | null;
+  stargazers_count: number;
+  pushed_at: string;
+  topics?: string[];
+}
+
+type LanguagesResponse = Record<string, number>;
+
+const TIMEOUT_MS = 8000;
+const MAX_LANGUAGES = 3;
+
+const contentDir = path.join(process.cwd(), profileDirs(process.cwd()).content);
+const snapshotPath = path.join(contentDir, GITHUB_SNAPSHOT_FILE);
+const apiUrl = (process.env.GITHUB_API_URL ?? "https://api.github.com").replace(/\/+$/, "");
+const token = process.env.GITHUB_TOKEN;
+const offline = process.env.GITHUB_IMPORT === "offline" || process.argv.includes("--offline");
+
+function projectRepos(): string[] {
+  const raw: unknown = parseYaml(readFileSync(path.join(contentDir, CONTENT_FILES.projects), "utf8"));
+  if (!Array.isArray(raw)) return [];
+  // Malformed entries are reported by the content plugin during `vite build`.
+  const repos = raw.flatMap((p) => (typeof p?.repo === "string" && p.repo.trim() ? [p.repo.trim()] : []));
+  return [...new Set(repos)];
+}
+
+function readSnapshot(): GithubSnapshot {
+  if (!existsSync(snapshotPath)) return { repos: {} };
+  const { snapshot, issues } = validateGithubSnapshot(JSON.parse(readFileSync(snapshotPath, "utf8")));
+  if (issues.length) throw new Error(`${GITHUB_SNAPSHOT_FILE} is malformed; delete it to start over`);
+  return snapshot;
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      accept: "application/vnd.github+json",
+      "user-agent": "portfolio-github-import",
+      ...(token && { authorization: `Bearer ${token}` }),
+    },
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText} from ${url}`);
+  return (await response.json()) as T;
+}
+
+async function fetchRepo(repo: string): Promise<RepoInfo> {
+  const [info, languages] = await Promise.all([
+    getJson<RepoResponse>(`${apiUrl}/repos/${repo}`),
+    getJson<LanguagesResponse>(`${apiUrl}/repos/${repo}/languages`),
+  ]);
+  return {
+    url: info.html_url,
+    ...(info.description && { description: info.description }),
+    languages: Object.entries(languages)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_LANGUAGES)
+      .map(([name]) => name),
+    stars: info.stargazers_count,
+    pushedAt: info.pushed_at,
+    topics: info.topics ?? [],
+  };
+}
+
+const repos = projectRepos();
+const cached = readSnapshot();
+const next: GithubSnapshot["repos"] = {};
+
+if (!repos.length) {
+  console.log("github: no projects set `repo`; nothing to import");
+} else if (offline) {
+  for (const repo of repos) {
+    if (cached.repos[repo]) next[repo] = cached.repos[repo];
+    else console.warn(`github: ${repo} has no cached data (offline mode)`);
+  }
+  console.log(`github: offline, using cached data for ${Object.keys(next).length} of ${repos.length} repos`);
+} else {
+  let fetched = 0;
+  // One at a time keeps well inside the unauthenticated rate limit.
+  for (const repo of repos) {
+    try {
+      next[repo] = await fetchRepo(repo);
+      fetched++;
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      if (cached.repos[repo]) {
+        next[repo] = cached.repos[repo];
+        console.warn(`github: ${repo} could not be fetched (${reason}); keeping cached data`);
+      } else {
+        console.warn(`github: ${repo} could not be fetched (${reason}) and has no cached data`);
+      }
+    }
+  }
+  console.log(`github: fetched ${fetched} of ${repos.length} repos from ${apiUrl}`);
+}
+
+// Only touch the committed file when something actually changed.
+const sorted = Object.fromEntries(Object.entries(next).sort(([a], [b]) => a.localeCompare(b)));
+if (JSON.stringify(sorted) !== JSON.stringify(cached.repos)) {
+  const snapshot: GithubSnapshot = { updatedAt: new Date().toISOString(), repos: sorted };
+  writeFileSync(snapshotPath, `${JSON.stringify(snapshot, null, 2)}\n`);
+  console.log(`github: updated ${path.relative(process.cwd(), snapshotPath)}`);
+}
@@ -0,0 +1,43 @@
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import path from "node:path";
+import { sendResponse, toRequest } from "../server/node-http";
+
+/**
+ * Local stand-in for the two GitHub REST endpoints the importer uses, serving
+ * canned responses from scripts/fixtures/github.json. Run it with
+ * `npm run github:stand-in`, then import against it without network access:
+ *
+ *   GITHUB_API_URL=http://localhost:8787 npm run github:import
+ */
+
+interface Fixture {
+  repo: object;
+  languages: Record<string, number>;
+}
+
+const fixtures = JSON.parse(
+  readFileSync(path.join(import.meta.dirname, "fixtures", "github.json"), "utf8"),
+) as Record<string, Fixture>;
+const port = Number(process.env.PORT ?? 8787);
+
+const ROUTE = /^\/repos\/([\w.-]+\/[\w.-]+)(\/languages)?$/;
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+async function handle(request: Request): Promise<Response> {
+  const match = ROUTE.exec(new URL(request.url).pathname);
+  const fixture = match && fixtures[match[1]];
+  if (request.method !== "GET" || !fixture) return json(404, { message: "Not Found" });
+  return json(200, match[2] ? fixture.languages : fixture.repo);
+}
+
+createServer(async (req, res) => {
+  const request = await toRequest(req, `http://localhost:${port}`);
+  console.log(`${request.method} ${new URL(request.url).pathname}`);
+  await sendResponse(res, await handle(request));
+}).listen(port, () => {
+  console.log(`GitHub stand-in API on http://localhost:${port} (${Object.keys(fixtures).length} repos)`);
+});
@@ -0,0 +1,167 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { stdin, stdout } from "node:process";
+import { createInterface } from "node:readline/promises";
+import { parse as parseYaml } from "yaml";
+import { readAccent } from "../plugins/og";
+import { DEFAULT_PROFILE_DIRS, PROFILE_ENV, PROFILES_DIR, profileIds } from "../plugins/profiles";
+import { CONTENT_FILES, slugify, type ContentKey } from "../src/content/schema";
+import { toContentYaml, yamlHeader } from "../src/content/yaml";
+import { DEFAULT_PALETTE, PALETTES, type PaletteId } from "../src/lib/theme-boot";
+
+/**
+ * `npm run profile:new`: asks for a person's name, contact details and
+ * palette, and scaffolds profiles/<id>/ (see plugins/profiles.ts) with
+ *
+ *   content/profile.yaml   filled in from the answers
+ *   content/about.md       a line to replace
+ *   content/*.yaml         no entries yet, with the default profile's field notes
+ *   content/logo.svg       a monogram in the chosen palette, also public/hero.svg
+ *
+ * Only the home, about and contact sections start out shown, so the new
+ * profile builds straight away; switch the others on in sections.yaml as
+ * their files fill up.
+ */
+
+const root = process.cwd();
+const template = path.join(root, DEFAULT_PROFILE_DIRS.content);
+
+// Sections that show something without any entries.
+const SHOWN = ["home", "about", "contact"];
+
+const ID = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Check = (answer: string) => string | undefined;
+
+const rl = createInterface({ input: stdin, output: stdout });
+// Read as a stream rather than with rl.question(), which drops lines piped in ahead of the prompt.
+const lines = rl[Symbol.asyncIterator]();
+
+/** Ask until `check` accepts the answer; an empty answer takes `fallback` when there is one. */
+async function ask(question: string, check: Check, fallback?: string): Promise<string> {
+  for (;;) {
+    rl.setPrompt(fallback ? `${question} (${fallback}): ` : `${question}: `);
+    rl.prompt();
+    const line = await lines.next();
+    if (line.done) throw new Error("Input ended before every question was answered; nothing was written.");
+    const answer = line.value.trim() || fallback || "";
+    const problem = answer ? check(answer) : "is required";
+    if (!problem) return answer;
+    console.log(`  ${question} ${problem}`);
+  }
+}
+
+const anything: Check = () => undefined;
+
+const url: Check = (answer) => {
+  try {
+    return /^https?:$/.test(new URL(answer).protocol) ? undefined : "must start with https://";
+  } catch {
+    return "must be a full URL, e.g. https://example.com";
+  }
+};
+
+function initials(name: string): string {
+  const words = name.split(/\s+/).filter(Boolean);
+  return (words.length > 1 ? words[0][0] + words[words.length - 1][0] : name.slice(0, 2)).toUpperCase();
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** A rounded square in the palette's gradient with the person's initials, like content/logo.svg. */
+function monogram(name: string, palette: PaletteId): string {
+  const accent = readAccent(path.join(root, "src/index.css"), palette);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+  <defs>
+    <linearGradient id="accent" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="${accent.from}" />
+      <stop offset="1" stop-color="${accent.to}" />
+    </linearGradient>
+  </defs>
+  <rect width="512" height="512" rx="112" fill="url(#accent)" />
+  <text x="256" y="256" dy="0.35em" text-anchor="middle" font-family="system-ui, 'Segoe UI', Helvetica, Arial, sans-serif" font-size="220" font-weight="700" fill="#fff">${escapeXml(initials(name))}</text>
+</svg>
+`;
+}
+
+/** The default profile's sections with everything that needs entries hidden. */
+function starterSections(): unknown[] {
+  const sections = parseYaml(readFileSync(path.join(template, CONTENT_FILES.sections), "utf8")) as { id: string; hidden?: boolean }[];
+  return sections.map(({ hidden, ...s }) => ({ ...s, hidden: hidden || !SHOWN.includes(s.id) || undefined }));
+}
+
+function headerOf(key: ContentKey): string {
+  return yamlHeader(readFileSync(path.join(template, CONTENT_FILES[key]), "utf8"));
+}
+
+function write(file: string, contents: string) {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, contents);
+}
+
+try {
+  console.log("New portfolio profile. Everything can be changed later in its content files.\n");
+  const name = await ask("Full name", anything);
+  const existing = profileIds(root);
+  const id = await ask(
+    "Profile id",
+    (answer) => {
+      if (!ID.test(answer)) return "may only contain lowercase letters, digits and dashes";
+      if (existing.includes(answer)) return `is taken by ${PROFILES_DIR}/${answer}/`;
+      return undefined;
+    },
+    slugify(name) || undefined,
+  );
+  const headline = await ask("Headline, e.g. Software Engineer · Cloud & Data", anything);
+  const email = await ask("Email", (answer) => (EMAIL.test(answer) ? undefined : "must be an email address"));
+  const siteUrl = await ask("Site URL", url);
+  const github = await ask("GitHub profile URL", url);
+  const linkedin = await ask("LinkedIn profile URL", url);
+  const ids = PALETTES.map((p) => p.id);
+  const palette = (await ask(
+    `Palette [${ids.join(", ")}]`,
+    (answer) => ((ids as string[]).includes(answer) ? undefined : `must be one of ${ids.join(", ")}`),
+    DEFAULT_PALETTE,
+  )) as PaletteId;
+
+  const dir = path.join(root, PROFILES_DIR, id);
+  const content = path.join(dir, "content");
+  const profile = {
+    name,
+    headline,
+    summary: headline,
+    heroImage: "/hero.svg",
+    heroImageAlt: `${name}'s initials`,
+    email,
+    resume: "/resume.pdf",
+    siteUrl: siteUrl.replace(/\/+$/, ""),
+    socials: { github, linkedin },
+    seo: {
+      title: `${name} — ${headline}`,
+      description: `Portfolio of ${name}, ${headline}.`,
+      ogTitle: `${name} — Portfolio`,
+      ogDescription: headline,
+    },
+    palette,
+  };
+  write(path.join(content, CONTENT_FILES.profile), toContentYaml(profile, headerOf("profile")));
+  write(path.join(content, CONTENT_FILES.sections), toContentYaml(starterSections(), headerOf("sections")));
+  for (const key of Object.keys(CONTENT_FILES) as ContentKey[]) {
+    if (key !== "profile" && key !== "sections") write(path.join(content, CONTENT_FILES[key]), toContentYaml([], headerOf(key)));
+  }
+  write(path.join(content, "about.md"), `A few paragraphs about ${name}: background, current work and what comes next.\n`);
+  const logo = monogram(name, palette);
+  write(path.join(content, "logo.svg"), logo);
+  write(path.join(dir, "public", "hero.svg"), logo);
+
+  console.log(`\nCreated ${path.relative(root, dir)}/. Preview it with:\n\n  ${PROFILE_ENV}=${id} npm run dev\n`);
+  console.log("Then fill in about.md and the entry files, and replace public/hero.svg with a photo.");
+} catch (err) {
+  console.error(`\n${(err as Error).message}`);
+  process.exitCode = 1;
+} finally {
+  rl.close();
+}
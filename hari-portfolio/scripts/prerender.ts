@@ -0,0 +1,64 @@
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { profileDirs } from "../plugins/profiles";
+
+/**
+ * Build step: render every route to static HTML.
+ *
+ * Runs after `vite build` (client, into dist/) and `vite build --ssr` (server
+ * entry, into dist-ssr/). Each route becomes dist/<route>.html with its own
+ * title, meta tags, JSON-LD and <html lang>; other locales land under their
+ * prefix (dist/es/...). Vercel serves them through `cleanUrls`. Also
+ * writes the offline fallback pages, 404.html, sitemap.xml and robots.txt,
+ * then removes dist-ssr/. Another profile's build uses the same names under
+ * profiles/<id>/ (see plugins/profiles.ts).
+ */
+
+interface ServerEntry {
+  routes: string[];
+  offlineRoutes: string[];
+  prepare(): Promise<void>;
+  render(url: string): { html: string; head: string; lang: string };
+  sitemap(): string;
+  robots(): string;
+}
+
+const root = process.cwd();
+const profile = profileDirs(root);
+const dist = path.join(root, profile.outDir);
+const ssrDir = path.join(root, profile.ssrOutDir);
+
+const entry = (await import(pathToFileURL(path.join(ssrDir, "entry-server.js")).href)) as ServerEntry;
+await entry.prepare();
+const template = readFileSync(path.join(dist, "index.html"), "utf8");
+
+if (!template.includes("<!--app-head-->") || !template.includes("<!--app-html-->") || !template.includes('<html lang="en">')) {
+  throw new Error('index.html is missing the <!--app-head--> or <!--app-html--> placeholder, or <html lang="en">');
+}
+
+function write(file: string, contents: string) {
+  const target = path.join(dist, file);
+  mkdirSync(path.dirname(target), { recursive: true });
+  writeFileSync(target, contents);
+}
+
+function page(url: string): string {
+  const { html, head, lang } = entry.render(url);
+  // Replacer functions keep "$" sequences in the markup literal.
+  return template
+    .replace('<html lang="en">', `<html lang="${lang}">`)
+    .replace("<!--app-head-->", () => head)
+    .replace("<!--app-html-->", () => html);
+}
+
+for (const route of entry.routes) {
+  write(route === "/" ? "index.html" : `${route.slice(1)}.html`, page(route));
+}
+for (const route of entry.offlineRoutes) write(`${route.slice(1)}.html`, page(route));
+write("404.html", page("/404"));
+write("sitemap.xml", entry.sitemap());
+write("robots.txt", entry.robots());
+
+rmSync(ssrDir, { recursive: true, force: true });
+console.log(`Prerendered ${entry.routes.length} routes, offline pages, 404.html, sitemap.xml and robots.txt`);
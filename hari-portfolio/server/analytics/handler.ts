@@ -0,0 +1,55 @@
+import { parseEventPayload } from "../../src/lib/analytics-events";
+import { clientIp, createMemoryRateLimiter, type RateLimiter } from "../contact/rate-limit";
+import type { EventSink } from "./sinks";
+
+/**
+ * POST /api/events: one analytics event per request, answered with 204 and no
+ * body. The IP is used for rate limiting only and never stored. Requests
+ * carrying Do Not Track or Global Privacy Control headers are accepted and
+ * dropped, in case a tracker ignores them.
+ */
+
+export interface EventsHandlerOptions {
+  sink: EventSink;
+  rateLimiter?: RateLimiter;
+  now?: () => Date;
+}
+
+// Generous for a person clicking around, low enough to blunt a script.
+const DEFAULT_LIMIT = { limit: 120, windowMs: 60 * 1000 };
+const MAX_BODY = 2048;
+
+const NO_STORE = { "cache-control": "no-store" };
+
+export function createEventsHandler(options: EventsHandlerOptions) {
+  const limiter = options.rateLimiter ?? createMemoryRateLimiter(DEFAULT_LIMIT);
+  const now = options.now ?? (() => new Date());
+
+  return async function handleEvents(request: Request): Promise<Response> {
+    if (request.method !== "POST") return new Response(null, { status: 405, headers: { allow: "POST" } });
+
+    const { allowed, retryAfter } = limiter.hit(clientIp(request.headers));
+    if (!allowed) return new Response(null, { status: 429, headers: { ...NO_STORE, "retry-after": String(retryAfter) } });
+
+    if (request.headers.get("dnt") === "1" || request.headers.get("sec-gpc") === "1") {
+      return new Response(null, { status: 204, headers: NO_STORE });
+    }
+
+    const text = await request.text().catch(() => "");
+    let payload;
+    try {
+      payload = text.length <= MAX_BODY ? parseEventPayload(JSON.parse(text)) : undefined;
+    } catch {
+      payload = undefined;
+    }
+    if (!payload) return new Response(null, { status: 400, headers: NO_STORE });
+
+    try {
+      await options.sink.record({ ...payload, receivedAt: now().toISOString() });
+    } catch (err) {
+      // Analytics must never break the page; log and move on.
+      console.error(`[analytics] ${options.sink.name} sink failed`, err);
+    }
+    return new Response(null, { status: 204, headers: NO_STORE });
+  };
+}
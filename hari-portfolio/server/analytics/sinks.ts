@@ -0,0 +1,85 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import type { EventPayload } from "../../src/lib/analytics-events";
+
+/**
+ * Event sinks decide where accepted analytics events are stored. The handler
+ * only sees the `EventSink` interface; `sinkFromEnv` picks one from
+ * environment variables:
+ *
+ *   ANALYTICS_SINK         console | file | webhook | off (default: console)
+ *   ANALYTICS_FILE         JSON Lines file to append to (file; default .data/analytics-events.jsonl)
+ *   ANALYTICS_WEBHOOK_URL  receives each event as JSON (webhook)
+ */
+
+export type RecordedEvent = EventPayload & {
+  /** ISO timestamp. */
+  receivedAt: string;
+};
+
+export interface EventSink {
+  readonly name: string;
+  record(event: RecordedEvent): Promise<void>;
+}
+
+export class SinkConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SinkConfigError";
+  }
+}
+
+export function createConsoleSink(): EventSink {
+  return {
+    name: "console",
+    async record(event) {
+      console.info("[analytics]", event);
+    },
+  };
+}
+
+export function createFileSink(file: string): EventSink {
+  return {
+    name: "file",
+    async record(event) {
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(file, JSON.stringify(event) + "\n", "utf8");
+    },
+  };
+}
+
+export function createWebhookSink(url: string): EventSink {
+  return {
+    name: "webhook",
+    async record(event) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(event),
+      });
+      if (!res.ok) throw new Error(`Webhook responded with ${res.status}`);
+    },
+  };
+}
+
+export function createNullSink(): EventSink {
+  return { name: "off", async record() {} };
+}
+
+export function sinkFromEnv(env: Record<string, string | undefined>): EventSink {
+  switch (env.ANALYTICS_SINK ?? "console") {
+    case "file":
+      return createFileSink(env.ANALYTICS_FILE ?? path.join(".data", "analytics-events.jsonl"));
+    case "webhook": {
+      const url = env.ANALYTICS_WEBHOOK_URL;
+      if (!url) throw new SinkConfigError("ANALYTICS_WEBHOOK_URL must be set when ANALYTICS_SINK=webhook");
+      return createWebhookSink(url);
+    }
+    case "console":
+      return createConsoleSink();
+    case "off":
+      return createNullSink();
+    default:
+      throw new SinkConfigError(`Unknown ANALYTICS_SINK "${env.ANALYTICS_SINK}"`);
+  }
+}
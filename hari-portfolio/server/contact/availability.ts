@@ -0,0 +1,22 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { AVAILABILITY_FILE, formatIssues, validateAvailability, type Availability } from "../../src/content/schema";
+
+/**
+ * The availability.yaml of a content directory, for checking call requests.
+ * No file means no calls. The build already rejects an invalid one, so here
+ * it is logged and treated as missing.
+ */
+export function readAvailability(dir: string): Availability | undefined {
+  const file = path.join(dir, AVAILABILITY_FILE);
+  if (!existsSync(file)) return undefined;
+  try {
+    const { availability, issues } = validateAvailability(parseYaml(readFileSync(file, "utf8")));
+    if (!issues.length) return availability;
+    console.error(`[contact] ${formatIssues(issues, "Call requests are off; invalid availability", dir)}`);
+  } catch (err) {
+    console.error(`[contact] ${AVAILABILITY_FILE} could not be read`, err);
+  }
+  return undefined;
+}
@@ -0,0 +1,152 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { icsInvite, type MeetingRequest } from "../../src/lib/meeting";
+
+/**
+ * Delivery adapters decide where an accepted contact message goes. The
+ * handler only sees the `DeliveryAdapter` interface; `adapterFromEnv` picks
+ * one from environment variables:
+ *
+ *   CONTACT_DELIVERY   smtp | webhook | file | console (default: console)
+ *   CONTACT_TO         recipient address (smtp)
+ *   CONTACT_FROM       sender address (smtp; defaults to CONTACT_TO)
+ *   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE=true
+ *   CONTACT_WEBHOOK_URL  receives the message as JSON (webhook)
+ *   CONTACT_FILE       JSON Lines file to append to (file; default .data/contact-messages.jsonl)
+ */
+
+export interface ContactMessage {
+  name: string;
+  email: string;
+  message: string;
+  /** ISO timestamp. */
+  receivedAt: string;
+  ip: string;
+  /** A call the sender asked for, at a slot from availability.yaml. */
+  meeting?: MeetingRequest;
+}
+
+export interface DeliveryAdapter {
+  readonly name: string;
+  deliver(message: ContactMessage): Promise<void>;
+}
+
+export class DeliveryConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeliveryConfigError";
+  }
+}
+
+export function createConsoleAdapter(): DeliveryAdapter {
+  return {
+    name: "console",
+    async deliver(message) {
+      console.info("[contact] new message", message);
+    },
+  };
+}
+
+export function createFileAdapter(file: string): DeliveryAdapter {
+  return {
+    name: "file",
+    async deliver(message) {
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(file, JSON.stringify(message) + "\n", "utf8");
+    },
+  };
+}
+
+export function createWebhookAdapter(url: string): DeliveryAdapter {
+  return {
+    name: "webhook",
+    async deliver(message) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(message),
+      });
+      if (!res.ok) throw new Error(`Webhook responded with ${res.status}`);
+    },
+  };
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string;
+}
+
+export function createSmtpAdapter(options: SmtpOptions): DeliveryAdapter {
+  return {
+    name: "smtp",
+    async deliver(message) {
+      // Loaded lazily so the other adapters don't pay for it.
+      const { createTransport } = await import("nodemailer");
+      const transport = createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+      });
+      const { meeting } = message;
+      const call = meeting && `Requested call: ${meeting.start} to ${meeting.end} (UTC), sender's time zone ${meeting.timeZone ?? "unknown"}\n`;
+      await transport.sendMail({
+        from: options.from,
+        to: options.to,
+        replyTo: { name: message.name, address: message.email },
+        subject: `${meeting ? "Call request" : "Portfolio inquiry"} from ${message.name}`,
+        text: `${call ? `${call}\n` : ""}${message.message}\n\n— ${message.name} <${message.email}>\nReceived ${message.receivedAt}`,
+        // The same event the sender downloaded, to accept into the owner's calendar.
+        attachments: meeting && [
+          {
+            filename: "call.ics",
+            contentType: "text/calendar; charset=utf-8",
+            content: icsInvite({
+              slot: meeting,
+              summary: `Call with ${message.name}`,
+              description: message.message,
+              organizer: { email: options.to },
+              attendee: { name: message.name, email: message.email },
+            }),
+          },
+        ],
+      });
+    },
+  };
+}
+
+function required(env: Record<string, string | undefined>, key: string): string {
+  const value = env[key];
+  if (!value) throw new DeliveryConfigError(`${key} must be set when CONTACT_DELIVERY=${env.CONTACT_DELIVERY}`);
+  return value;
+}
+
+export function adapterFromEnv(env: Record<string, string | undefined>): DeliveryAdapter {
+  switch (env.CONTACT_DELIVERY ?? "console") {
+    case "smtp": {
+      const to = required(env, "CONTACT_TO");
+      return createSmtpAdapter({
+        host: required(env, "SMTP_HOST"),
+        port: Number(env.SMTP_PORT ?? 587),
+        secure: env.SMTP_SECURE === "true",
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        from: env.CONTACT_FROM ?? to,
+        to,
+      });
+    }
+    case "webhook":
+      return createWebhookAdapter(required(env, "CONTACT_WEBHOOK_URL"));
+    case "file":
+      return createFileAdapter(env.CONTACT_FILE ?? path.join(".data", "contact-messages.jsonl"));
+    case "console":
+      return createConsoleAdapter();
+    default:
+      throw new DeliveryConfigError(`Unknown CONTACT_DELIVERY "${env.CONTACT_DELIVERY}"`);
+  }
+}
@@ -0,0 +1,114 @@
+import type { Availability } from "../../src/content/schema";
+import { HONEYPOT_FIELD, validateContact, type ContactResponse } from "../../src/lib/contact";
+import { readMeetingRequest } from "../../src/lib/meeting";
+import type { DeliveryAdapter } from "./delivery";
+import { clientIp, createMemoryRateLimiter, type RateLimiter } from "./rate-limit";
+
+/**
+ * POST /api/contact, written against the Fetch API `Request`/`Response` so
+ * the same code runs as a Vercel function and behind the dev server.
+ * A message may carry a call request, accepted only for a slot the
+ * availability still offers.
+ */
+
+export interface ContactHandlerOptions {
+  delivery: DeliveryAdapter;
+  rateLimiter?: RateLimiter;
+  /** The profile's availability.yaml; without one, call requests are refused. */
+  availability?: () => Availability | undefined;
+  now?: () => Date;
+}
+
+// Five messages per IP every ten minutes is plenty for a person.
+const DEFAULT_LIMIT = { limit: 5, windowMs: 10 * 60 * 1000 };
+
+function json(body: ContactResponse, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json; charset=utf-8", "cache-control": "no-store", ...headers },
+  });
+}
+
+// The longest valid message is 5000 characters; this leaves room for UTF-8,
+// the other fields and multipart framing.
+const MAX_BODY_BYTES = 32 * 1024;
+
+/** The request body, or undefined once it runs past `MAX_BODY_BYTES`. */
+async function readBytes(request: Request): Promise<Blob | undefined> {
+  if (Number(request.headers.get("content-length")) > MAX_BODY_BYTES) return undefined;
+  if (!request.body) return new Blob();
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength;
+    if (size > MAX_BODY_BYTES) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(chunk.value);
+  }
+  return new Blob(chunks);
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown> | "too_large" | undefined> {
+  const type = request.headers.get("content-type") ?? "";
+  try {
+    const bytes = await readBytes(request);
+    if (!bytes) return "too_large";
+    // Parsed from the bytes already read, so the size limit holds whatever the type.
+    const body = new Response(bytes, { headers: { "content-type": type } });
+    if (type.includes("application/json")) {
+      const parsed: unknown = await body.json();
+      return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : undefined;
+    }
+    if (type.includes("application/x-www-form-urlencoded") || type.includes("multipart/form-data")) {
+      const fields: Record<string, unknown> = {};
+      (await body.formData()).forEach((value, key) => (fields[key] = value));
+      return fields;
+    }
+  } catch {
+    return undefined;
+  }
+  return undefined;
+}
+
+export function createContactHandler(options: ContactHandlerOptions) {
+  const limiter = options.rateLimiter ?? createMemoryRateLimiter(DEFAULT_LIMIT);
+  const now = options.now ?? (() => new Date());
+
+  return async function handleContact(request: Request): Promise<Response> {
+    if (request.method !== "POST") return new Response(null, { status: 405, headers: { allow: "POST" } });
+
+    const ip = clientIp(request.headers);
+    const { allowed, retryAfter } = limiter.hit(ip);
+    if (!allowed) return json({ ok: false, error: "rate_limited", retryAfter }, 429, { "retry-after": String(retryAfter) });
+
+    const body = await readBody(request);
+    if (body === "too_large") return json({ ok: false, error: "bad_request" }, 413);
+    if (!body) return json({ ok: false, error: "bad_request" }, 400);
+
+    // Bots get the same success response, so they have nothing to learn from.
+    const honeypot = body[HONEYPOT_FIELD];
+    if (typeof honeypot === "string" && honeypot.trim()) return json({ ok: true }, 200);
+
+    const receivedAt = now();
+    const { values, errors } = validateContact(body);
+    const { meeting, error: slot } = readMeetingRequest(body, options.availability?.(), receivedAt);
+    if (slot) errors.slot = slot;
+    if (Object.keys(errors).length) {
+      // A form the visitor can correct doesn't count, so fixing a typo isn't
+      // what locks them out; unreadable and oversized bodies still do.
+      limiter.refund(ip);
+      return json({ ok: false, error: "validation", fields: errors }, 400);
+    }
+
+    try {
+      await options.delivery.deliver({ ...values, ...(meeting && { meeting }), ip, receivedAt: receivedAt.toISOString() });
+    } catch (err) {
+      console.error(`[contact] ${options.delivery.name} delivery failed`, err);
+      return json({ ok: false, error: "delivery_failed" }, 502);
+    }
+    return json({ ok: true }, 200);
+  };
+}
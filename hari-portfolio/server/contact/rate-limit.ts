@@ -0,0 +1,48 @@
+/**
+ * Fixed-window rate limiter keyed by client IP.
+ *
+ * State lives in memory, so on Vercel each function instance counts
+ * separately; that is enough to blunt a single noisy client. Swap in a shared
+ * store behind the same interface if stricter limits are ever needed.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the window resets (0 when allowed). */
+  retryAfter: number;
+}
+
+export interface RateLimiter {
+  hit(key: string, now?: number): RateLimitResult;
+  /** Takes back one hit, for a request that turned out not to count. */
+  refund(key: string): void;
+}
+
+export function createMemoryRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    hit(key, now = Date.now()) {
+      // Opportunistic cleanup keeps the map from growing without bound.
+      for (const [k, w] of windows) if (now - w.start >= windowMs) windows.delete(k);
+
+      const current = windows.get(key) ?? { start: now, count: 0 };
+      current.count += 1;
+      windows.set(key, current);
+
+      if (current.count <= limit) return { allowed: true, retryAfter: 0 };
+      return { allowed: false, retryAfter: Math.ceil((current.start + windowMs - now) / 1000) };
+    },
+    refund(key) {
+      const current = windows.get(key);
+      if (current && current.count > 0) current.count -= 1;
+    },
+  };
+}
+
+/** Best-effort client IP from proxy headers (Vercel sets x-forwarded-for). */
+export function clientIp(headers: Headers): string {
+  const forwarded = headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return headers.get("x-real-ip") ?? "unknown";
+}
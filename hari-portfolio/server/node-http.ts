@@ -0,0 +1,34 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+/**
+ * Bridges Node's http module to Fetch API handlers, so the functions under
+ * /api can run inside the Vite dev server exactly as they do on Vercel.
+ */
+
+export type FetchHandler = (request: Request) => Promise<Response>;
+
+export async function toRequest(req: IncomingMessage, origin: string): Promise<Request> {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) value.forEach((v) => headers.append(key, v));
+    else if (value !== undefined) headers.set(key, value);
+  }
+  if (!headers.has("x-forwarded-for") && req.socket.remoteAddress) {
+    headers.set("x-forwarded-for", req.socket.remoteAddress);
+  }
+
+  const method = req.method ?? "GET";
+  let body: Buffer | undefined;
+  if (method !== "GET" && method !== "HEAD") {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    body = Buffer.concat(chunks);
+  }
+  return new Request(new URL(req.url ?? "/", origin), { method, headers, body });
+}
+
+export async function sendResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, key) => res.setHeader(key, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
@@ -0,0 +1,386 @@
+import { useCallback, useEffect, useId, useMemo, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from "react";
+import { createPortal } from "react-dom";
+import {
+  Briefcase,
+  Copy,
+  Download,
+  FileText,
+  FolderGit2,
+  Github,
+  Hash,
+  Linkedin,
+  Search,
+  Sparkles,
+  SunMoon,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+import { useNavigate } from "react-router";
+import { experience, posts, projects, skills } from "virtual:content";
+import { allRoles, rolePeriod } from "../lib/experience";
+import { fuzzyMatch } from "../lib/fuzzy";
+import { useI18n } from "../lib/i18n";
+import { toggleReducedMotion } from "../lib/motion";
+import { hasSection } from "../lib/sections";
+import { toggleDark } from "../lib/theme";
+
+/**
+ * Command palette (Ctrl/Cmd+K or "/"): fuzzy search over sections, projects,
+ * experience, skills and posts, plus quick actions. Built as a modal dialog
+ * holding an ARIA combobox + listbox, with a focus trap and focus returned to
+ * wherever it was on close. Renders its own header trigger button.
+ */
+
+interface Command {
+  id: string;
+  title: string;
+  group: string;
+  icon: LucideIcon;
+  /** Extra text to match on (e.g. a project's stack) but not shown as the title. */
+  keywords?: string[];
+  hint?: string;
+  run: () => void | Promise<void>;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+function openExternal(url: string) {
+  window.open(url, "_blank", "noopener,noreferrer");
+}
+
+export default function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [cursor, setCursor] = useState(0);
+  const [status, setStatus] = useState("");
+  const navigate = useNavigate();
+  const { t, path, formatPeriod, nav, profile } = useI18n();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const returnFocus = useRef<HTMLElement | null>(null);
+  const baseId = useId();
+  const listId = `${baseId}-list`;
+  const optionId = useCallback((i: number) => `${baseId}-option-${i}`, [baseId]);
+
+  const commands = useMemo<Command[]>(() => {
+    const list: Command[] = [
+      ...nav.map((n) => ({
+        id: `section:${n.id}`,
+        title: n.label,
+        group: t("palette.group.sections"),
+        icon: Hash,
+        run: () => navigate(path(`/#${n.id}`)),
+      })),
+      ...projects.map((p) => ({
+        id: `project:${p.slug}`,
+        title: p.title,
+        group: t("palette.group.projects"),
+        icon: FolderGit2,
+        keywords: p.stack,
+        hint: p.stack.slice(0, 3).join(" · "),
+        run: () => navigate(path(`/projects/${p.slug}`)),
+      })),
+      // Roles and skills jump to their section, so they're only listed while it is shown.
+      ...(hasSection("experience") ? allRoles(experience) : []).map((r, i) => ({
+        id: `experience:${i}`,
+        title: `${r.title} — ${r.org}`,
+        group: t("palette.group.experience"),
+        icon: Briefcase,
+        hint: formatPeriod(rolePeriod(r)),
+        run: () => navigate(path("/#experience")),
+      })),
+      ...(hasSection("skills") ? skills : []).map((s) => ({
+        id: `skill:${s.label}`,
+        title: s.label,
+        group: t("palette.group.skills"),
+        icon: Wrench,
+        run: () => navigate(path("/#skills")),
+      })),
+      ...posts.map((p) => ({
+        id: `post:${p.slug}`,
+        title: p.title,
+        group: t("palette.group.writing"),
+        icon: FileText,
+        keywords: p.tags,
+        run: () => navigate(path(`/writing/${p.slug}`)),
+      })),
+      {
+        id: "action:theme",
+        title: t("palette.toggleTheme"),
+        group: t("palette.group.actions"),
+        icon: SunMoon,
+        keywords: ["dark mode"],
+        run: toggleDark,
+      },
+      {
+        id: "action:motion",
+        title: t("palette.toggleMotion"),
+        group: t("palette.group.actions"),
+        icon: Sparkles,
+        keywords: ["reduce motion", "animation", "accessibility"],
+        run: toggleReducedMotion,
+      },
+      {
+        id: "action:email",
+        title: t("palette.copyEmail"),
+        group: t("palette.group.actions"),
+        icon: Copy,
+        hint: profile.email,
+        run: async () => {
+          try {
+            await navigator.clipboard.writeText(profile.email);
+            setStatus(t("palette.copied", { email: profile.email }));
+          } catch {
+            window.location.href = `mailto:${profile.email}`;
+          }
+        },
+      },
+      {
+        id: "action:github",
+        title: t("palette.openGithub"),
+        group: t("palette.group.actions"),
+        icon: Github,
+        run: () => openExternal(profile.socials.github),
+      },
+      {
+        id: "action:linkedin",
+        title: t("palette.openLinkedin"),
+        group: t("palette.group.actions"),
+        icon: Linkedin,
+        run: () => openExternal(profile.socials.linkedin),
+      },
+    ];
+    list.push({
+      id: "action:resume-page",
+      title: t("palette.viewResume"),
+      group: t("palette.group.actions"),
+      icon: FileText,
+      keywords: ["resume", "cv"],
+      run: () => navigate(path("/resume")),
+    });
+    const { resume } = profile;
+    if (resume) {
+      list.push({
+        id: "action:resume",
+        title: t("palette.downloadResume"),
+        group: t("palette.group.actions"),
+        icon: Download,
+        keywords: ["resume", "cv"],
+        run: () => {
+          const a = document.createElement("a");
+          a.href = resume;
+          a.download = "";
+          a.click();
+        },
+      });
+    }
+    return list;
+  }, [navigate, t, path, formatPeriod, nav, profile]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return commands;
+    return commands
+      .map((c) => ({ c, score: fuzzyMatch(query, [c.title, ...(c.keywords ?? [])]) }))
+      .filter((r): r is { c: Command; score: number } => r.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map((r) => r.c);
+  }, [commands, query]);
+
+  const active = Math.min(cursor, Math.max(results.length - 1, 0));
+
+  const close = useCallback(() => {
+    setOpen(false);
+    setQuery("");
+    setCursor(0);
+  }, []);
+
+  // Global shortcuts. Ctrl/Cmd+K toggles; closing goes through `close` so the next open starts fresh.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        if (open) close();
+        else setOpen(true);
+      } else if (e.key === "/" && !e.metaKey && !e.ctrlKey && !e.altKey && !isTypingTarget(e.target)) {
+        e.preventDefault();
+        setOpen(true);
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open, close]);
+
+  // Focus the search box on open; give focus back on close.
+  useEffect(() => {
+    if (!open) return;
+    returnFocus.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    inputRef.current?.focus();
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = overflow;
+      returnFocus.current?.focus();
+    };
+  }, [open]);
+
+  // Keep the highlighted option visible.
+  useEffect(() => {
+    if (open) document.getElementById(optionId(active))?.scrollIntoView({ block: "nearest" });
+  }, [active, open, optionId]);
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    close();
+    void command.run();
+  };
+
+  const onKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setCursor(results.length ? (active + 1) % results.length : 0);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setCursor(results.length ? (active - 1 + results.length) % results.length : 0);
+        break;
+      case "Home":
+        e.preventDefault();
+        setCursor(0);
+        break;
+      case "End":
+        e.preventDefault();
+        setCursor(Math.max(results.length - 1, 0));
+        break;
+      case "Enter":
+        e.preventDefault();
+        run(results[active]);
+        break;
+      case "Escape":
+        e.preventDefault();
+        close();
+        break;
+      case "Tab": {
+        // Focus trap: cycle between the focusable controls inside the dialog.
+        const focusable = dialogRef.current?.querySelectorAll<HTMLElement>("input, button");
+        if (!focusable?.length) break;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
+        break;
+      }
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        aria-label={t("palette.open")}
+        aria-keyshortcuts="Control+K Meta+K /"
+        aria-haspopup="dialog"
+        className="inline-flex items-center gap-2 rounded-xl border border-neutral-300/60 dark:border-neutral-700/60 px-2.5 py-2 text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition"
+      >
+        <Search className="w-4 h-4" aria-hidden />
+        <kbd className="hidden lg:inline font-sans text-xs text-neutral-500">Ctrl K</kbd>
+      </button>
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {status}
+      </div>
+
+      {open &&
+        createPortal(
+          <div className="fixed inset-0 z-[60] flex items-start justify-center px-4 pt-[12vh]">
+            <div className="absolute inset-0 bg-neutral-950/50 backdrop-blur-sm" aria-hidden onClick={close} />
+            <div
+              ref={dialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-label={t("palette.dialog")}
+              onKeyDown={onKeyDown}
+              className="relative w-full max-w-xl overflow-hidden rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 shadow-2xl"
+            >
+              <div className="flex items-center gap-3 border-b border-neutral-200 dark:border-neutral-800 px-4">
+                <Search className="w-4 h-4 shrink-0 text-neutral-500" aria-hidden />
+                <input
+                  ref={inputRef}
+                  type="text"
+                  role="combobox"
+                  aria-expanded="true"
+                  aria-controls={listId}
+                  aria-autocomplete="list"
+                  aria-activedescendant={results.length ? optionId(active) : undefined}
+                  aria-label={t("palette.input")}
+                  placeholder={t("palette.placeholder")}
+                  autoComplete="off"
+                  spellCheck={false}
+                  value={query}
+                  onChange={(e) => {
+                    setQuery(e.target.value);
+                    setCursor(0);
+                  }}
+                  className="h-14 w-full bg-transparent text-neutral-900 dark:text-neutral-100 placeholder:text-neutral-500 focus:outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={close}
+                  className="shrink-0 rounded-md border border-neutral-300 dark:border-neutral-700 px-1.5 py-0.5 text-xs text-neutral-500 hover:text-neutral-900 dark:hover:text-white"
+                >
+                  Esc<span className="sr-only"> — {t("palette.close")}</span>
+                </button>
+              </div>
+
+              <ul id={listId} role="listbox" aria-label={t("palette.results")} className="max-h-[50vh] overflow-y-auto p-2">
+                {results.map((c, i) => {
+                  const Icon = c.icon;
+                  const selected = i === active;
+                  return (
+                    <li
+                      key={c.id}
+                      id={optionId(i)}
+                      role="option"
+                      aria-selected={selected}
+                      onMouseMove={() => setCursor(i)}
+                      onClick={() => run(c)}
+                      className={`flex cursor-pointer items-center gap-3 rounded-lg px-3 py-2 text-sm ${
+                        selected
+                          ? "bg-neutral-100 dark:bg-neutral-800 text-neutral-900 dark:text-white"
+                          : "text-neutral-700 dark:text-neutral-300"
+                      }`}
+                    >
+                      <Icon className={`w-4 h-4 shrink-0 ${selected ? "text-accent" : "text-neutral-400"}`} aria-hidden />
+                      <span className="min-w-0 flex-1 truncate">{c.title}</span>
+                      {c.hint && <span className="hidden sm:inline truncate text-xs text-neutral-500">{c.hint}</span>}
+                      <span className="shrink-0 text-xs text-neutral-500">
+                        <span className="sr-only">, </span>
+                        {c.group}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {results.length === 0 && (
+                <p className="px-4 pb-6 pt-2 text-sm text-neutral-600 dark:text-neutral-400">{t("palette.noMatches", { query })}</p>
+              )}
+              <p role="status" aria-live="polite" className="sr-only">
+                {query.trim() ? t(results.length === 1 ? "palette.count.one" : "palette.count.other", { count: results.length }) : ""}
+              </p>
+            </div>
+          </div>,
+          document.body,
+        )}
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import { BarChart3 } from "lucide-react";
+import { useI18n } from "../lib/i18n";
+import { resetConsent, setConsent, useConsent } from "../lib/analytics";
+
+/**
+ * Asks once whether anonymous usage events may be recorded (see
+ * src/lib/analytics.ts). Hidden when tracking is off or the browser sends Do
+ * Not Track; `AnalyticsPreferences` in the footer brings it back.
+ */
+
+export default function ConsentBanner() {
+  const consent = useConsent();
+  const { t } = useI18n();
+  if (consent !== "unset") return null;
+
+  return (
+    <section
+      aria-label={t("consent.label")}
+      className="print:hidden fixed inset-x-4 bottom-4 z-40 mx-auto max-w-xl rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white/95 dark:bg-neutral-900/95 backdrop-blur p-4 shadow-xl"
+    >
+      <div className="flex gap-3">
+        <BarChart3 className="mt-0.5 w-5 h-5 shrink-0 text-accent" aria-hidden />
+        <p className="text-sm text-neutral-700 dark:text-neutral-300">{t("consent.body")}</p>
+      </div>
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setConsent(false)}
+          className="rounded-xl border border-neutral-300 dark:border-neutral-700 px-3 py-1.5 text-sm text-neutral-800 dark:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition"
+        >
+          {t("consent.decline")}
+        </button>
+        <button
+          type="button"
+          onClick={() => setConsent(true)}
+          className="rounded-xl px-3 py-1.5 text-sm font-medium text-white bg-gradient-to-br from-accent to-accent-end hover:opacity-95 transition"
+        >
+          {t("consent.allow")}
+        </button>
+      </div>
+    </section>
+  );
+}
+
+/** Footer link to change the answer; only shown once there is one. */
+export function AnalyticsPreferences() {
+  const consent = useConsent();
+  const { t } = useI18n();
+  if (consent !== "granted" && consent !== "denied") return null;
+
+  return (
+    <button type="button" onClick={resetConsent} className="underline-offset-4 hover:underline">
+      {t("consent.preferences")}
+    </button>
+  );
+}
@@ -0,0 +1,294 @@
+import { useMemo, useRef, useState, useSyncExternalStore, type FormEvent, type ReactNode } from "react";
+import { CalendarPlus, CheckCircle2, Loader2 } from "lucide-react";
+import type { Availability } from "../content/schema";
+import type { MessageKey } from "../i18n";
+import { track } from "../lib/analytics";
+import {
+  CONTACT_FIELDS,
+  HONEYPOT_FIELD,
+  LIMITS,
+  validateContact,
+  type ContactField,
+  type ContactFieldErrors,
+  type ContactResponse,
+} from "../lib/contact";
+import { useI18n } from "../lib/i18n";
+import { intlLocale } from "../lib/locale";
+import { formatSlot, icsInvite, meetingSlots, readMeetingRequest, type MeetingSlot } from "../lib/meeting";
+import { ACCENT } from "../theme";
+import MeetingPicker from "./MeetingPicker";
+
+type Status =
+  | { state: "idle" }
+  | { state: "pending" }
+  | { state: "success"; meeting?: MeetingSlot; invite?: string }
+  | { state: "error"; message: string };
+
+const inputClass =
+  "w-full rounded-xl border bg-white dark:bg-neutral-900 px-4 py-3 text-sm text-neutral-800 dark:text-neutral-100 placeholder-neutral-400 focus:outline-none focus:ring-2 focus:ring-accent/50";
+
+function fieldClass(error: string | undefined) {
+  return `${inputClass} ${error ? "border-rose-400 dark:border-rose-500" : "border-neutral-300 dark:border-neutral-700"}`;
+}
+
+type Translate = ReturnType<typeof useI18n>["t"];
+
+const FIELD_ERRORS: { [F in ContactField]: Record<NonNullable<ContactFieldErrors[F]>, MessageKey> } = {
+  name: { required: "contact.error.name.required", too_long: "contact.error.name.too_long" },
+  email: { required: "contact.error.email.required", invalid: "contact.error.email.invalid" },
+  message: {
+    required: "contact.error.message.required",
+    too_short: "contact.error.message.too_short",
+    too_long: "contact.error.message.too_long",
+  },
+};
+
+// Nothing to subscribe to: only "rendered in the browser yet?" matters.
+const noSubscription = () => () => {};
+
+function fieldError<F extends ContactField>(t: Translate, field: F, code: ContactFieldErrors[F]): string | undefined {
+  return code && t(FIELD_ERRORS[field][code], LIMITS[field]);
+}
+
+function errorMessage(t: Translate, body: ContactResponse | undefined, status: number): string {
+  if (body && !body.ok && body.error === "rate_limited")
+    return t("contact.rateLimited", { minutes: Math.ceil(body.retryAfter / 60) });
+  if (status >= 500) return t("contact.deliveryFailed");
+  return t("contact.failed");
+}
+
+/**
+ * Contact form posting to /api/contact, with inline field errors and
+ * pending/success/error states. With an `availability`, visitors can also
+ * request a call (MeetingPicker) and download it as an .ics file once sent.
+ */
+export default function ContactForm({ links, availability }: { links?: ReactNode; availability?: Availability }) {
+  const formRef = useRef<HTMLFormElement>(null);
+  const [status, setStatus] = useState<Status>({ state: "idle" });
+  const [errors, setErrors] = useState<ContactFieldErrors>({});
+  const [slot, setSlot] = useState("");
+  // When the offered slots were worked out; moved on when a chosen one turns out to have gone.
+  const [slotsAt, setSlotsAt] = useState(() => Date.now());
+  const hydrated = useSyncExternalStore(noSubscription, () => true, () => false);
+  const { t, locale, profile } = useI18n();
+
+  const slots = useMemo(
+    () => (hydrated && availability ? meetingSlots(availability, new Date(slotsAt)) : []),
+    [hydrated, availability, slotsAt],
+  );
+  const chosen = slots.some((s) => s.start === slot);
+
+  function focusFirstError(fieldErrors: ContactFieldErrors) {
+    const first = CONTACT_FIELDS.find((f) => fieldErrors[f]);
+    if (first) formRef.current?.querySelector<HTMLElement>(`[name="${first}"]`)?.focus();
+    else if (fieldErrors.slot) formRef.current?.querySelector<HTMLElement>("#meeting-day")?.focus();
+  }
+
+  function slotGone(fieldErrors: ContactFieldErrors) {
+    if (!fieldErrors.slot) return;
+    setSlot("");
+    setSlotsAt(Date.now());
+  }
+
+  /** The requested call as a data: URL, so the download needs nothing from the server. */
+  function inviteUrl(meeting: MeetingSlot, data: Record<string, string>): string {
+    const ics = icsInvite({
+      slot: meeting,
+      summary: t("meeting.invite.summary", { name: profile.name }),
+      description: `${t("meeting.invite.description", { name: profile.name })}\n\n${data.message.trim()}`,
+      organizer: { name: profile.name, email: profile.email },
+      attendee: { name: data.name.trim(), email: data.email.trim() },
+      url: profile.siteUrl,
+    });
+    return `data:text/calendar;charset=utf-8,${encodeURIComponent(ics)}`;
+  }
+
+  async function onSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const data = Object.fromEntries(new FormData(form)) as Record<string, string>;
+
+    const { errors: clientErrors } = validateContact(data);
+    const { meeting, error: slotError } = readMeetingRequest(data, availability, new Date());
+    if (slotError) clientErrors.slot = slotError;
+    setErrors(clientErrors);
+    if (Object.keys(clientErrors).length) {
+      setStatus({ state: "idle" });
+      slotGone(clientErrors);
+      focusFirstError(clientErrors);
+      track({ name: "contact_submit", outcome: "invalid" });
+      return;
+    }
+
+    setStatus({ state: "pending" });
+    try {
+      const res = await fetch("/api/contact", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const body = (await res.json().catch(() => undefined)) as ContactResponse | undefined;
+
+      if (body?.ok) {
+        form.reset();
+        setSlot("");
+        setStatus({ state: "success", meeting, invite: meeting && inviteUrl(meeting, data) });
+        track({ name: "contact_submit", outcome: "sent" });
+        return;
+      }
+      if (body && body.error === "validation") {
+        setErrors(body.fields);
+        setStatus({ state: "idle" });
+        slotGone(body.fields);
+        focusFirstError(body.fields);
+        track({ name: "contact_submit", outcome: "invalid" });
+        return;
+      }
+      setStatus({ state: "error", message: errorMessage(t, body, res.status) });
+      track({ name: "contact_submit", outcome: body?.error === "rate_limited" ? "rate_limited" : "failed" });
+    } catch {
+      setStatus({ state: "error", message: t("contact.offline") });
+      track({ name: "contact_submit", outcome: "failed" });
+    }
+  }
+
+  function clearError(field: keyof ContactFieldErrors) {
+    if (!errors[field]) return;
+    setErrors((prev) => {
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  }
+
+  const pending = status.state === "pending";
+  const describedBy = (field: ContactField) => (errors[field] ? `contact-${field}-error` : undefined);
+
+  return (
+    <form ref={formRef} className="mt-8 grid gap-4" noValidate onSubmit={onSubmit} aria-busy={pending}>
+      {/* Honeypot: hidden from people and assistive tech, tempting to bots. */}
+      <div aria-hidden className="absolute -left-[9999px] w-px h-px overflow-hidden">
+        <label>
+          Company
+          <input name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" />
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="contact-name" className="sr-only">
+          {t("contact.name")}
+        </label>
+        <input
+          id="contact-name"
+          name="name"
+          required
+          autoComplete="name"
+          placeholder={t("contact.name")}
+          aria-invalid={errors.name ? true : undefined}
+          aria-describedby={describedBy("name")}
+          onChange={() => clearError("name")}
+          className={fieldClass(errors.name)}
+        />
+        {errors.name && (
+          <p id="contact-name-error" className="mt-1 text-sm text-rose-600 dark:text-rose-400">
+            {fieldError(t, "name", errors.name)}
+          </p>
+        )}
+      </div>
+      <div>
+        <label htmlFor="contact-email" className="sr-only">
+          {t("contact.email")}
+        </label>
+        <input
+          id="contact-email"
+          name="email"
+          type="email"
+          required
+          autoComplete="email"
+          placeholder={t("contact.email")}
+          aria-invalid={errors.email ? true : undefined}
+          aria-describedby={describedBy("email")}
+          onChange={() => clearError("email")}
+          className={fieldClass(errors.email)}
+        />
+        {errors.email && (
+          <p id="contact-email-error" className="mt-1 text-sm text-rose-600 dark:text-rose-400">
+            {fieldError(t, "email", errors.email)}
+          </p>
+        )}
+      </div>
+      <div>
+        <label htmlFor="contact-message" className="sr-only">
+          {t("contact.message")}
+        </label>
+        <textarea
+          id="contact-message"
+          name="message"
+          rows={5}
+          required
+          placeholder={t("contact.messagePlaceholder")}
+          aria-invalid={errors.message ? true : undefined}
+          aria-describedby={describedBy("message")}
+          onChange={() => clearError("message")}
+          className={fieldClass(errors.message)}
+        />
+        {errors.message && (
+          <p id="contact-message-error" className="mt-1 text-sm text-rose-600 dark:text-rose-400">
+            {fieldError(t, "message", errors.message)}
+          </p>
+        )}
+      </div>
+
+      {availability && (
+        <MeetingPicker
+          // A fresh picker (no day chosen) after each message sent.
+          key={status.state === "success" ? "sent" : "open"}
+          slots={slots}
+          slotMinutes={availability.slotMinutes}
+          value={chosen ? slot : ""}
+          onChange={(start) => {
+            setSlot(start);
+            clearError("slot");
+          }}
+          error={errors.slot && t("contact.error.slot.unavailable")}
+          ready={hydrated}
+        />
+      )}
+
+      <div role="status" aria-live="polite" className="text-sm">
+        {status.state === "success" && (
+          <>
+            <p className="inline-flex items-center gap-2 text-emerald-700 dark:text-emerald-400">
+              <CheckCircle2 className="w-4 h-4" />{" "}
+              {status.meeting
+                ? t("meeting.success", { when: formatSlot(status.meeting.start, intlLocale(locale)) })
+                : t("contact.success")}
+            </p>
+            {status.invite && (
+              <a
+                href={status.invite}
+                download="call.ics"
+                className="mt-2 flex w-fit items-center gap-2 font-medium text-neutral-800 dark:text-neutral-100 underline decoration-accent/60 underline-offset-4 hover:decoration-accent"
+              >
+                <CalendarPlus className="w-4 h-4 text-accent" aria-hidden /> {t("meeting.download")}
+              </a>
+            )}
+          </>
+        )}
+        {status.state === "error" && <p className="text-rose-600 dark:text-rose-400">{status.message}</p>}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-4">{links}</div>
+        <button
+          type="submit"
+          disabled={pending}
+          className={`inline-flex items-center gap-2 rounded-xl px-5 py-2.5 text-sm font-medium text-white bg-gradient-to-br ${ACCENT} shadow-lg shadow-accent/10 hover:opacity-95 disabled:opacity-60 disabled:cursor-wait transition`}
+        >
+          {pending && <Loader2 className="w-4 h-4 animate-spin" aria-hidden />}
+          {pending ? t("contact.sending") : chosen ? t("meeting.send") : t("contact.send")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { useLocation } from "react-router";
+import * as content from "virtual:content";
+import { pageHead } from "../lib/head";
+
+/**
+ * Keeps <head> in sync with the current route after client-side navigation.
+ * The first page load already has these tags from prerendering; they are
+ * marked `data-head` so each navigation can swap them out wholesale. Switching
+ * locale updates <html lang> too.
+ */
+export default function Head() {
+  const { pathname } = useLocation();
+
+  useEffect(() => {
+    const head = pageHead(pathname, content);
+    document.title = head.title;
+    document.documentElement.lang = head.lang;
+    document.head.querySelectorAll("[data-head]").forEach((el) => el.remove());
+    for (const { tag, attrs, children } of head.tags) {
+      const el = document.createElement(tag);
+      for (const [k, v] of Object.entries(attrs)) el.setAttribute(k, v);
+      el.setAttribute("data-head", "");
+      if (children) el.textContent = children;
+      document.head.appendChild(el);
+    }
+  }, [pathname]);
+
+  return null;
+}
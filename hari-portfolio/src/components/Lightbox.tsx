@@ -0,0 +1,123 @@
+import { useEffect, useRef, type KeyboardEvent as ReactKeyboardEvent } from "react";
+import { createPortal } from "react-dom";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import type { Screenshot } from "../content/schema";
+import { useI18n } from "../lib/i18n";
+import Picture from "./Picture";
+
+/**
+ * Full-size screenshot viewer: a modal dialog over the page with previous/next
+ * controls. Arrow keys step through the images, Escape or the backdrop closes
+ * it, Tab stays inside, and focus goes back to whatever opened it.
+ */
+
+interface LightboxProps {
+  images: Screenshot[];
+  /** The image shown; the lightbox is closed while this is null. */
+  index: number | null;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+const controlButton =
+  "grid place-items-center rounded-full bg-white/10 p-2 text-white hover:bg-white/20 transition focus:outline-none focus-visible:ring-2 focus-visible:ring-white";
+
+export default function Lightbox({ images, index, onIndexChange, onClose }: LightboxProps) {
+  const { t } = useI18n();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const open = index !== null;
+
+  useEffect(() => {
+    if (!open) return;
+    const returnFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    closeRef.current?.focus();
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = overflow;
+      returnFocus?.focus();
+    };
+  }, [open]);
+
+  if (index === null) return null;
+  const shot = images[index];
+  const count = images.length;
+  const step = (delta: number) => onIndexChange((index + delta + count) % count);
+
+  const onKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    switch (e.key) {
+      case "Escape":
+        e.preventDefault();
+        onClose();
+        break;
+      case "ArrowLeft":
+        if (count > 1) step(-1);
+        break;
+      case "ArrowRight":
+        if (count > 1) step(1);
+        break;
+      case "Tab": {
+        const focusable = dialogRef.current?.querySelectorAll<HTMLElement>("button");
+        if (!focusable?.length) break;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
+        break;
+      }
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 sm:p-8">
+      <div className="absolute inset-0 bg-neutral-950/90 backdrop-blur-sm" aria-hidden onClick={onClose} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("lightbox.label", { index: index + 1, count })}
+        onKeyDown={onKeyDown}
+        className="relative flex max-h-full w-full max-w-6xl flex-col items-center"
+      >
+        <div className="mb-3 flex w-full items-center justify-between text-sm text-neutral-300">
+          <span aria-hidden>
+            {index + 1} / {count}
+          </span>
+          <button ref={closeRef} type="button" onClick={onClose} aria-label={t("lightbox.close")} className={controlButton}>
+            <X className="w-5 h-5" aria-hidden />
+          </button>
+        </div>
+
+        <figure className="flex min-h-0 w-full flex-col items-center">
+          <Picture
+            key={shot.src}
+            src={shot.src}
+            alt={shot.alt}
+            sizes="(min-width: 72rem) 72rem, 100vw"
+            priority
+            className="max-h-[75vh] w-auto max-w-full rounded-xl bg-white object-contain"
+          />
+          {shot.caption && <figcaption className="mt-3 text-center text-sm text-neutral-300">{shot.caption}</figcaption>}
+        </figure>
+
+        {count > 1 && (
+          <div className="mt-4 flex gap-3">
+            <button type="button" onClick={() => step(-1)} aria-label={t("lightbox.previous")} className={controlButton}>
+              <ChevronLeft className="w-5 h-5" aria-hidden />
+            </button>
+            <button type="button" onClick={() => step(1)} aria-label={t("lightbox.next")} className={controlButton}>
+              <ChevronRight className="w-5 h-5" aria-hidden />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,45 @@
+import { Languages } from "lucide-react";
+import { useLocation, useNavigate } from "react-router";
+import { useI18n } from "../lib/i18n";
+import { LOCALES, LOCALE_KEY, isLocale, localePath, splitLocale } from "../lib/locale";
+
+/**
+ * Language picker. Moves to the same page in the chosen locale (keeping the
+ * query and hash) and remembers the choice, which then beats the browser's
+ * language when the visitor next lands on an unprefixed URL.
+ */
+export default function LocaleSwitcher({ className = "" }: { className?: string }) {
+  const { locale, t } = useI18n();
+  const { pathname, search, hash } = useLocation();
+  const navigate = useNavigate();
+
+  const change = (next: string) => {
+    if (!isLocale(next)) return;
+    try {
+      localStorage.setItem(LOCALE_KEY, next);
+    } catch {
+      // Storage can be unavailable (private mode); the URL still switches.
+    }
+    navigate(localePath(splitLocale(pathname).path, next) + search + hash);
+  };
+
+  return (
+    <label
+      className={`relative inline-flex items-center rounded-xl border border-neutral-300/60 dark:border-neutral-700/60 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition ${className}`}
+    >
+      <span className="sr-only">{t("locale.label")}</span>
+      <Languages className="pointer-events-none absolute left-2 w-4 h-4 text-neutral-600 dark:text-neutral-400" aria-hidden />
+      <select
+        value={locale}
+        onChange={(e) => change(e.target.value)}
+        className="appearance-none bg-transparent py-2 pl-8 pr-2 text-sm text-neutral-700 dark:text-neutral-300 focus:outline-none focus:ring-2 focus:ring-accent/50 rounded-xl"
+      >
+        {LOCALES.map((l) => (
+          <option key={l.id} value={l.id} lang={l.id} className="bg-white dark:bg-neutral-900">
+            {l.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,111 @@
+import { useMemo, useState } from "react";
+import { CalendarClock } from "lucide-react";
+import { useI18n } from "../lib/i18n";
+import { intlLocale } from "../lib/locale";
+import { SLOT_FIELD, TIME_ZONE_FIELD, formatSlotDay, formatSlotTime, zonedDate, type MeetingSlot } from "../lib/meeting";
+
+/**
+ * "Book a chat" inside the contact form: a day, then one of its open times,
+ * both in the visitor's time zone. The chosen start is posted as the `slot`
+ * field along with the zone. Slots depend on the current time and zone, so
+ * prerendered HTML (`ready` false) only shows the frame.
+ */
+export default function MeetingPicker({
+  slots,
+  slotMinutes,
+  value,
+  onChange,
+  error,
+  ready,
+}: {
+  slots: MeetingSlot[];
+  slotMinutes: number;
+  value: string;
+  onChange: (slot: string) => void;
+  error?: string;
+  ready: boolean;
+}) {
+  const { t, locale } = useI18n();
+  const intl = intlLocale(locale);
+  const [day, setDay] = useState("");
+  const timeZone = ready ? Intl.DateTimeFormat().resolvedOptions().timeZone : "";
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, MeetingSlot[]>();
+    for (const slot of slots) {
+      const key = zonedDate(Date.parse(slot.start));
+      byDay.set(key, [...(byDay.get(key) ?? []), slot]);
+    }
+    return [...byDay].map(([key, daySlots]) => ({ key, label: formatSlotDay(daySlots[0].start, intl), slots: daySlots }));
+  }, [slots, intl]);
+  const current = days.find((d) => d.key === day);
+
+  function pickDay(key: string) {
+    setDay(key);
+    onChange("");
+  }
+
+  return (
+    <fieldset
+      className={`rounded-xl border px-4 pt-2 pb-4 ${error ? "border-rose-400 dark:border-rose-500" : "border-neutral-300 dark:border-neutral-700"}`}
+      aria-describedby={error ? "contact-slot-error" : undefined}
+    >
+      <legend className="inline-flex items-center gap-2 px-1 text-sm font-medium text-neutral-800 dark:text-neutral-100">
+        <CalendarClock className="w-4 h-4 text-accent" aria-hidden /> {t("meeting.title")}{" "}
+        <span className="font-normal text-neutral-500 dark:text-neutral-400">({t("meeting.optional")})</span>
+      </legend>
+      {!ready ? (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">{t("meeting.loading")}</p>
+      ) : !days.length ? (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">{t("meeting.none")}</p>
+      ) : (
+        <>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            {t("meeting.intro", { minutes: slotMinutes, zone: timeZone.replace(/_/g, " ") })}
+          </p>
+          <input type="hidden" name={TIME_ZONE_FIELD} value={timeZone} />
+          <label htmlFor="meeting-day" className="sr-only">
+            {t("meeting.day")}
+          </label>
+          <select
+            id="meeting-day"
+            value={current ? day : ""}
+            onChange={(e) => pickDay(e.target.value)}
+            className="mt-3 w-full rounded-xl border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-4 py-3 text-sm text-neutral-800 dark:text-neutral-100 focus:outline-none focus:ring-2 focus:ring-accent/50"
+          >
+            <option value="">{t("meeting.noCall")}</option>
+            {days.map((d) => (
+              <option key={d.key} value={d.key}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+          {current && (
+            <div role="radiogroup" aria-label={t("meeting.times", { day: current.label })} className="mt-3 flex flex-wrap gap-2">
+              {current.slots.map((slot) => (
+                <label key={slot.start}>
+                  <input
+                    type="radio"
+                    name={SLOT_FIELD}
+                    value={slot.start}
+                    checked={value === slot.start}
+                    onChange={() => onChange(slot.start)}
+                    className="peer sr-only"
+                  />
+                  <span className="inline-block cursor-pointer rounded-xl border border-neutral-300 dark:border-neutral-700 px-3 py-1.5 text-sm text-neutral-800 dark:text-neutral-200 hover:border-accent peer-checked:border-accent peer-checked:bg-accent/10 peer-checked:text-neutral-900 dark:peer-checked:text-white peer-focus-visible:ring-2 peer-focus-visible:ring-accent/50 transition">
+                    {formatSlotTime(slot.start, intl)}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+      {error && (
+        <p id="contact-slot-error" className="mt-2 text-sm text-rose-600 dark:text-rose-400">
+          {error}
+        </p>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import images from "virtual:images";
+
+/**
+ * An image from public/ with the variants generated by plugins/images.ts:
+ * AVIF and WebP `srcset`s, width/height so the layout doesn't shift, and a
+ * blurred preview painted behind it until it loads. Images without variants
+ * (SVGs, external URLs) render as a plain <img>.
+ */
+
+interface PictureProps {
+  src: string;
+  alt: string;
+  /** How wide the image is drawn, for picking a variant (see `sizes` on <img>). */
+  sizes: string;
+  className?: string;
+  /** Above-the-fold images load eagerly at high priority. */
+  priority?: boolean;
+}
+
+export default function Picture({ src, alt, sizes, className, priority = false }: PictureProps) {
+  const info = images[src];
+  const [loaded, setLoaded] = useState(false);
+  const placeholder = info?.placeholder && !loaded ? info.placeholder : undefined;
+
+  const img = (
+    <img
+      // A prerendered image may finish loading before hydration attaches onLoad.
+      ref={(el) => {
+        if (el?.complete && el.naturalWidth) setLoaded(true);
+      }}
+      src={src}
+      alt={alt}
+      width={info?.width}
+      height={info?.height}
+      loading={priority ? "eager" : "lazy"}
+      fetchPriority={priority ? "high" : undefined}
+      decoding="async"
+      onLoad={() => setLoaded(true)}
+      style={placeholder ? { backgroundImage: `url("${placeholder}")`, backgroundSize: "cover", backgroundPosition: "center" } : undefined}
+      className={className}
+    />
+  );
+
+  if (!info?.sources.length) return img;
+
+  return (
+    <picture className="contents">
+      {info.sources.map((s) => (
+        <source key={s.type} type={s.type} srcSet={s.srcSet} sizes={sizes} />
+      ))}
+      {img}
+    </picture>
+  );
+}
@@ -0,0 +1,53 @@
+import { Link } from "react-router";
+import type { Post } from "../content/schema";
+import { useI18n } from "../lib/i18n";
+
+export function PostMetaLine({ post }: { post: Post }) {
+  const { t, formatDate } = useI18n();
+  return (
+    <p className="text-xs text-neutral-500 dark:text-neutral-400">
+      <time dateTime={post.date}>{formatDate(post.date)}</time> · {t("writing.minRead", { minutes: post.readingMinutes })}
+      {post.draft && (
+        <span className="ml-2 rounded-full border border-amber-400/60 px-2 py-0.5 text-amber-600 dark:text-amber-400">
+          {t("writing.draft")}
+        </span>
+      )}
+    </p>
+  );
+}
+
+/** `heading` is the level of each post title: h3 under the home page's section h2, h2 under the /writing h1. */
+export default function PostList({ posts, heading: Heading = "h3" }: { posts: Post[]; heading?: "h2" | "h3" }) {
+  const { path } = useI18n();
+  return (
+    <ul className="grid gap-4">
+      {posts.map((post) => (
+        <li
+          key={post.slug}
+          className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-5 bg-white/50 dark:bg-neutral-900/50 backdrop-blur hover:shadow-md transition"
+        >
+          <PostMetaLine post={post} />
+          <Heading className="mt-1 text-lg font-semibold text-neutral-900 dark:text-neutral-100">
+            <Link to={path(`/writing/${post.slug}`)} className="hover:underline underline-offset-4">
+              {post.title}
+            </Link>
+          </Heading>
+          <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-400">{post.excerpt}</p>
+          {post.tags.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {post.tags.map((tag) => (
+                <Link
+                  key={tag}
+                  to={path(`/writing?tag=${encodeURIComponent(tag)}`)}
+                  className="text-xs rounded-full border border-neutral-300 dark:border-neutral-700 px-2 py-1 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition"
+                >
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
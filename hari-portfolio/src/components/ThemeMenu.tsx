@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, Monitor, Moon, Palette, Sun } from "lucide-react";
+import { useI18n } from "../lib/i18n";
+import { setReducedMotion, useReducedMotion } from "../lib/motion";
+import { PALETTES, THEME_MODES, setPalette, setThemeMode, useTheme, type ThemeMode } from "../lib/theme";
+
+/**
+ * Theme picker: light/dark/system mode, an accent palette and a reduced-motion switch.
+ * `ThemeOptions` is the bare control set (used inline in the mobile menu);
+ * the default export wraps it in a header popover.
+ */
+
+const MODE_ICONS: Record<ThemeMode, typeof Sun> = { light: Sun, dark: Moon, system: Monitor };
+
+export function ThemeOptions() {
+  const theme = useTheme();
+  const reduced = useReducedMotion();
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <fieldset>
+        <legend className="text-xs font-medium uppercase tracking-wide text-neutral-500 dark:text-neutral-400">{t("theme.mode")}</legend>
+        <div className="mt-2 grid grid-cols-3 gap-1 rounded-xl border border-neutral-200 dark:border-neutral-800 p-1">
+          {THEME_MODES.map((id) => {
+            const Icon = MODE_ICONS[id];
+            const selected = theme.mode === id;
+            return (
+              <button
+                key={id}
+                type="button"
+                aria-pressed={selected}
+                onClick={() => setThemeMode(id)}
+                className={`inline-flex items-center justify-center gap-1.5 rounded-lg px-2 py-1.5 text-sm transition ${
+                  selected
+                    ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                    : "text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                }`}
+              >
+                <Icon className="w-4 h-4" aria-hidden /> {t(`theme.mode.${id}`)}
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-xs font-medium uppercase tracking-wide text-neutral-500 dark:text-neutral-400">{t("theme.accent")}</legend>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {PALETTES.map(({ id, label }) => {
+            const selected = theme.palette === id;
+            return (
+              <button
+                key={id}
+                type="button"
+                aria-pressed={selected}
+                aria-label={label}
+                title={label}
+                onClick={() => setPalette(id)}
+                // Each swatch scopes its own palette variables, so it previews that palette.
+                data-palette={id}
+                className={`grid place-items-center w-8 h-8 rounded-full bg-gradient-to-br from-accent to-accent-end ring-offset-2 ring-offset-white dark:ring-offset-neutral-900 transition ${
+                  selected ? "ring-2 ring-neutral-900 dark:ring-white" : "hover:scale-105"
+                }`}
+              >
+                {selected && <Check className="w-4 h-4 text-white" aria-hidden />}
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-xs font-medium uppercase tracking-wide text-neutral-500 dark:text-neutral-400">{t("theme.motion")}</legend>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={reduced}
+          onClick={() => setReducedMotion(!reduced)}
+          className="mt-2 flex w-full items-center justify-between gap-3 rounded-xl px-1 py-1 text-sm text-neutral-800 dark:text-neutral-100"
+        >
+          {t("theme.reduceMotion")}
+          <span
+            aria-hidden
+            className={`relative h-6 w-11 shrink-0 rounded-full transition ${
+              reduced ? "bg-gradient-to-r from-accent to-accent-end" : "bg-neutral-300 dark:bg-neutral-700"
+            }`}
+          >
+            <span
+              className={`absolute top-0.5 left-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform ${
+                reduced ? "translate-x-5" : ""
+              }`}
+            />
+          </span>
+        </button>
+      </fieldset>
+    </div>
+  );
+}
+
+export default function ThemeMenu() {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const { mode } = useTheme();
+  const { t } = useI18n();
+  const Icon = MODE_ICONS[mode];
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: PointerEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointer);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("pointerdown", onPointer);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        aria-label={t("theme.settings")}
+        aria-expanded={open}
+        aria-controls="theme-menu"
+        onClick={() => setOpen((v) => !v)}
+        className="inline-flex items-center gap-1 rounded-xl border border-neutral-300/60 dark:border-neutral-700/60 p-2 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition"
+      >
+        <Icon className="w-4 h-4" aria-hidden />
+        <Palette className="w-4 h-4 text-accent" aria-hidden />
+      </button>
+      {open && (
+        <div
+          id="theme-menu"
+          className="absolute right-0 mt-2 w-72 rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900 p-4 shadow-xl"
+        >
+          <ThemeOptions />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { RefreshCw } from "lucide-react";
+import { useI18n } from "../lib/i18n";
+import { applyUpdate, dismissUpdate, useUpdateAvailable } from "../lib/pwa";
+
+/** Offers to reload once a new deploy has been downloaded in the background (see src/lib/pwa.ts). */
+export default function UpdateToast() {
+  const available = useUpdateAvailable();
+  const { t } = useI18n();
+  if (!available) return null;
+
+  return (
+    <section
+      role="status"
+      aria-label={t("update.label")}
+      className="print:hidden fixed inset-x-4 top-20 z-40 mx-auto max-w-md rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white/95 dark:bg-neutral-900/95 backdrop-blur p-4 shadow-xl"
+    >
+      <div className="flex items-center gap-3">
+        <RefreshCw className="w-5 h-5 shrink-0 text-accent" aria-hidden />
+        <p className="flex-1 text-sm text-neutral-700 dark:text-neutral-300">{t("update.body")}</p>
+        <button
+          type="button"
+          onClick={dismissUpdate}
+          className="rounded-xl px-3 py-1.5 text-sm text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition"
+        >
+          {t("update.dismiss")}
+        </button>
+        <button
+          type="button"
+          onClick={applyUpdate}
+          className="rounded-xl px-3 py-1.5 text-sm font-medium text-white bg-gradient-to-br from-accent to-accent-end hover:opacity-95 transition"
+        >
+          {t("update.reload")}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,189 @@
+import { CASE_STUDY_DIR, CONTENT_FILES, POSTS_DIR, TRANSLATIONS_DIR, type ContentIssue, type SiteContent } from "./schema";
+
+/**
+ * Content lint for `npm run content:check` (scripts/content-check.ts). The
+ * schema only checks that content is well-formed; these rules catch content
+ * that builds fine but shouldn't ship: placeholder and example links, `#`
+ * anchors with no section to land on, images and files missing from public/,
+ * copy too long for search results or cards, and malformed emails and URLs.
+ * Links inside Markdown (about.md, case studies, posts) are checked too.
+ *
+ * Reachability of external links needs the network, so it lives in the
+ * script, which fetches the `contentLinks` that pass `linkProblem`.
+ */
+
+/** A link, image or address found in the content, with where it was found. */
+export interface ContentLink {
+  file: string;
+  path: string;
+  value: string;
+  /**
+   * url: an absolute http(s) URL. link: anything an <a> accepts (URL, path, #anchor, mailto:).
+   * asset: an image or file under public/, or an https URL. email: an address.
+   */
+  kind: "url" | "link" | "asset" | "email";
+}
+
+export interface LintContext {
+  /** Files served from the site root, under public/ or generated by the build, e.g. "/hero.jpg". */
+  files: Set<string>;
+  /** Every page, e.g. "/", "/projects/cloud-lab", "/es/resume". */
+  routes: Set<string>;
+}
+
+// Domains reserved for documentation and testing (RFC 2606), and the local machine.
+const PLACEHOLDER_HOST = /(^|\.)(example\.(com|org|net)|localhost)$|\.(example|test|invalid|localhost)$/i;
+// Template leftovers such as "your-github", "your_name" or "...".
+const PLACEHOLDER_TEXT = /(^|[^a-z])your[-_]|\bchangeme\b|\.\.\./i;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Longest sensible length, in characters, of copy that's truncated somewhere. */
+const LIMITS = {
+  // Search results cut titles at about 60 characters and descriptions at about 160.
+  seoTitle: 60,
+  seoDescription: 160,
+  // Link previews allow a little more.
+  ogTitle: 70,
+  ogDescription: 200,
+  // The hero badge and the home social card fit two lines.
+  headline: 80,
+  // Cards and social cards show about four lines.
+  description: 200,
+};
+
+/** The domain of a URL or email address. */
+function hostOf(value: string): string | undefined {
+  if (value.startsWith("mailto:") || !value.includes(":")) {
+    const at = value.lastIndexOf("@");
+    return at < 0 ? undefined : value.slice(at + 1);
+  }
+  try {
+    return new URL(value).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+function placeholder(value: string): string | undefined {
+  if (value === "#") return 'is the placeholder "#"';
+  if (PLACEHOLDER_TEXT.test(value)) return `looks like a placeholder ("${value}")`;
+  const host = hostOf(value);
+  return host && PLACEHOLDER_HOST.test(host) ? `uses the placeholder domain ${host} ("${value}")` : undefined;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": '"', "&#39;": "'" };
+
+/** Link targets and image sources in rendered Markdown. */
+function htmlLinks(file: string, html: string): ContentLink[] {
+  const links: ContentLink[] = [];
+  for (const [, attr, raw] of html.matchAll(/\s(href|src)="([^"]*)"/g)) {
+    const value = raw.replace(/&(amp|lt|gt|quot|#39);/g, (e) => ENTITIES[e]);
+    links.push({ file, path: attr === "href" ? "link" : "image", value, kind: attr === "href" ? "link" : "asset" });
+  }
+  return links;
+}
+
+/** Every link, image and address in the content. */
+export function contentLinks(content: SiteContent): ContentLink[] {
+  const { profile } = content;
+  const links: ContentLink[] = [];
+  const add = (file: string, path: string, value: string | undefined, kind: ContentLink["kind"]) => {
+    if (value) links.push({ file, path, value, kind });
+  };
+
+  add(CONTENT_FILES.profile, "profile.email", profile.email, "email");
+  add(CONTENT_FILES.profile, "profile.siteUrl", profile.siteUrl, "url");
+  add(CONTENT_FILES.profile, "profile.socials.github", profile.socials.github, "url");
+  add(CONTENT_FILES.profile, "profile.socials.linkedin", profile.socials.linkedin, "url");
+  add(CONTENT_FILES.profile, "profile.heroImage", profile.heroImage, "asset");
+  add(CONTENT_FILES.profile, "profile.resume", profile.resume, "asset");
+  links.push(...htmlLinks("about.md", content.about.html));
+
+  content.projects.forEach((p, i) => {
+    const path = `projects[${i}]`;
+    add(CONTENT_FILES.projects, `${path}.links.github`, p.links.github, "link");
+    add(CONTENT_FILES.projects, `${path}.links.live`, p.links.live, "link");
+    add(CONTENT_FILES.projects, `${path}.cover.src`, p.cover?.src, "asset");
+    p.gallery.forEach((shot, j) => add(CONTENT_FILES.projects, `${path}.gallery[${j}].src`, shot.src, "asset"));
+    if (p.caseStudy) links.push(...htmlLinks(`${CASE_STUDY_DIR}/${p.slug}.md`, p.caseStudy.html));
+  });
+  content.experience.forEach((e, i) => add(CONTENT_FILES.experience, `experience[${i}].url`, e.url, "url"));
+  content.certifications.forEach((c, i) => add(CONTENT_FILES.certifications, `certifications[${i}].url`, c.url, "url"));
+  content.talks.forEach((t, i) => add(CONTENT_FILES.talks, `talks[${i}].url`, t.url, "url"));
+  content.testimonials.forEach((t, i) => add(CONTENT_FILES.testimonials, `testimonials[${i}].url`, t.url, "url"));
+  for (const post of content.posts) links.push(...htmlLinks(`${POSTS_DIR}/${post.slug}.md`, post.html));
+  for (const [locale, copy] of Object.entries(content.translations)) {
+    if (copy.about) links.push(...htmlLinks(`${TRANSLATIONS_DIR}/${locale}.yaml`, copy.about.html));
+  }
+  return links;
+}
+
+/** What's wrong with one link, if anything. */
+export function linkProblem(link: ContentLink, content: SiteContent, context: LintContext): string | undefined {
+  const { value, kind } = link;
+  const found = placeholder(value);
+  if (found) return found;
+
+  if (kind === "email") return EMAIL.test(value) ? undefined : `is not a valid email address ("${value}")`;
+  if (kind === "url") return isHttpUrl(value) ? undefined : `must be a full http(s) URL ("${value}")`;
+
+  if (value.startsWith("mailto:")) return EMAIL.test(value.slice("mailto:".length)) ? undefined : `is not a valid email link ("${value}")`;
+  const anchor = /^\/?#(.+)$/.exec(value)?.[1];
+  if (anchor !== undefined) {
+    const visible = content.sections.filter((s) => !s.hidden).map((s) => s.id as string);
+    if (visible.includes(anchor)) return undefined;
+    return `points at #${anchor}, but no section shown on the page has that id (${visible.join(", ")})`;
+  }
+  if (value.startsWith("/")) {
+    const target = value.split(/[?#]/)[0];
+    if (context.files.has(target) || context.routes.has(target.replace(/(.)\/$/, "$1"))) return undefined;
+    if (kind === "asset" || /\.\w+$/.test(target)) return `is not a file in public/ or generated by the build ("${target}")`;
+    return `is not a page on the site ("${target}")`;
+  }
+  if (isHttpUrl(value)) return undefined;
+  return kind === "asset" ? `must be a path under public/ or an https URL ("${value}")` : `is not a valid link ("${value}")`;
+}
+
+/** Copy longer than it can be shown in full. */
+function lengthIssues(content: SiteContent): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+  const check = (file: string, path: string, value: string | undefined, limit: number) => {
+    if (value && value.length > limit) {
+      issues.push({ file, path, message: `is ${value.length} characters; keep it under ${limit} so it isn't cut off` });
+    }
+  };
+  const seo = (file: string, copy: Partial<SiteContent["profile"]["seo"]>, headline?: string) => {
+    check(file, "profile.headline", headline, LIMITS.headline);
+    check(file, "profile.seo.title", copy.title, LIMITS.seoTitle);
+    check(file, "profile.seo.description", copy.description, LIMITS.seoDescription);
+    check(file, "profile.seo.ogTitle", copy.ogTitle, LIMITS.ogTitle);
+    check(file, "profile.seo.ogDescription", copy.ogDescription, LIMITS.ogDescription);
+  };
+
+  seo(CONTENT_FILES.profile, content.profile.seo, content.profile.headline);
+  for (const [locale, copy] of Object.entries(content.translations)) {
+    seo(`${TRANSLATIONS_DIR}/${locale}.yaml`, copy.profile.seo, copy.profile.headline);
+  }
+  content.projects.forEach((p, i) => check(CONTENT_FILES.projects, `projects[${i}].desc`, p.desc, LIMITS.description));
+  content.talks.forEach((t, i) => check(CONTENT_FILES.talks, `talks[${i}].desc`, t.desc, LIMITS.description));
+  for (const post of content.posts) check(`${POSTS_DIR}/${post.slug}.md`, "summary", post.summary, LIMITS.description);
+  return issues;
+}
+
+/** Everything the lint finds, without touching the network. */
+export function lintContent(content: SiteContent, context: LintContext): ContentIssue[] {
+  const links = contentLinks(content).flatMap((link) => {
+    const message = linkProblem(link, content, context);
+    return message ? [{ file: link.file, path: link.path, message }] : [];
+  });
+  return [...links, ...lengthIssues(content)];
+}
@@ -0,0 +1,1065 @@
+import { DEFAULT_PALETTE, PALETTES, type PaletteId } from "../lib/theme-boot";
+
+/**
+ * Content schema for the portfolio.
+ *
+ * Everything the site renders lives in versioned files under /content. The
+ * interfaces below describe those files, and `validateContent` checks freshly
+ * parsed data against them. Problems are reported as "<file>: <field> <message>"
+ * so a malformed entry fails the build with a pointer to the exact spot.
+ *
+ * This module is shared by the Vite content plugin (Node) and the app (types
+ * only), so it must stay free of DOM and Node APIs.
+ */
+
+/**
+ * Sections of the home page. Each id is also the section's anchor (`/#skills`)
+ * and has a component in the section registry in src/App.tsx; sections.yaml
+ * sets their order, nav labels and visibility.
+ */
+export const SECTION_IDS = [
+  "home",
+  "about",
+  "skills",
+  "projects",
+  "experience",
+  "education",
+  "certifications",
+  "talks",
+  "testimonials",
+  "writing",
+  "contact",
+] as const;
+
+export type SectionId = (typeof SECTION_IDS)[number];
+
+export interface SectionConfig {
+  id: SectionId;
+  /** Link text in the header nav and command palette. */
+  label: string;
+  /** Listed in the header nav; defaults to true. */
+  nav: boolean;
+  /** Left off the page (and out of the nav) without removing its entry. */
+  hidden: boolean;
+}
+
+export interface NavItem {
+  id: SectionId;
+  label: string;
+}
+
+export const SKILL_CATEGORIES = [
+  { id: "languages", label: "Languages & frameworks" },
+  { id: "data", label: "Data" },
+  { id: "cloud", label: "Cloud" },
+  { id: "tooling", label: "Tooling" },
+] as const;
+
+export type SkillCategory = (typeof SKILL_CATEGORIES)[number]["id"];
+
+/** Icon names a skill may use; the Skills section maps them to lucide icons. */
+export const SKILL_ICONS = ["code", "coffee", "database", "cloud", "chart", "git", "bot", "server", "terminal", "layers"] as const;
+
+export type SkillIcon = (typeof SKILL_ICONS)[number];
+
+export interface Skill {
+  label: string;
+  category: SkillCategory;
+  /** Self-assessed, from 1 (learning) to 5 (expert). */
+  proficiency?: number;
+  /** Years of hands-on use. */
+  years?: number;
+  icon?: SkillIcon;
+  /** Other spellings used in `stack` tags (e.g. "PL/SQL"), so those link to this skill too. */
+  aliases: string[];
+}
+
+export interface ProjectLinks {
+  github: string;
+  live: string;
+}
+
+/** An image under public/ (or an https URL); raster files under public/ get responsive variants. */
+export interface ImageRef {
+  src: string;
+  alt: string;
+}
+
+export interface Screenshot extends ImageRef {
+  caption?: string;
+}
+
+/** Long-form write-up from content/projects/<slug>.md. */
+export interface CaseStudy {
+  html: string;
+}
+
+/** Repository details imported from GitHub into content/github.json. */
+export interface RepoInfo {
+  url: string;
+  description?: string;
+  /** Up to three languages, largest first. */
+  languages: string[];
+  stars: number;
+  /** ISO timestamp of the last push. */
+  pushedAt: string;
+  topics: string[];
+}
+
+/** Cached GitHub data, keyed by "owner/repo"; written by scripts/github-import.ts. */
+export interface GithubSnapshot {
+  /** When any repo's data last changed. */
+  updatedAt?: string;
+  repos: Record<string, RepoInfo>;
+}
+
+export interface Project {
+  /** URL segment for /projects/<slug>; derived from the title when omitted. */
+  slug: string;
+  title: string;
+  /** May be omitted for projects with a `repo`; the GitHub description is used instead. */
+  desc: string;
+  stack: string[];
+  links: ProjectLinks;
+  /** GitHub "owner/repo"; details are imported at build time. */
+  repo?: string;
+  github?: RepoInfo & { recentlyActive: boolean };
+  /** When the project shipped, as YYYY-MM or YYYY-MM-DD; used for "newest" sorting. */
+  date?: string;
+  /** Featured projects sort first by default. */
+  featured: boolean;
+  /** Shown at the top of the project card. */
+  cover?: ImageRef;
+  /** Screenshots on the case study page, opened full size in a lightbox. */
+  gallery: Screenshot[];
+  caseStudy?: CaseStudy;
+}
+
+export interface ExperienceRole {
+  title: string;
+  /** ISO date, as precise as known: YYYY, YYYY-MM or YYYY-MM-DD. */
+  start: string;
+  /** Same format; left out while the role is current ("Present"). */
+  end?: string;
+  points: string[];
+  /** Technologies used in the role; matched against skills like project `stack` tags. */
+  stack: string[];
+}
+
+/** One organization on the timeline, with every role held there. */
+export interface ExperienceEntry {
+  org: string;
+  url?: string;
+  location?: string;
+  roles: ExperienceRole[];
+}
+
+export interface EducationEntry {
+  school: string;
+  degree: string;
+  /** Written like an experience period, e.g. "2023 — 2025". */
+  period: string;
+  points: string[];
+}
+
+export interface Certification {
+  name: string;
+  issuer: string;
+  /** When it was issued, as YYYY-MM or YYYY-MM-DD. */
+  date: string;
+  expires?: string;
+  /** Where the credential can be verified. */
+  url?: string;
+}
+
+export const TALK_KINDS = ["talk", "publication"] as const;
+
+export type TalkKind = (typeof TALK_KINDS)[number];
+
+/** A talk given or an article/paper published elsewhere (posts on this site go in writing/). */
+export interface Talk {
+  title: string;
+  kind: TalkKind;
+  /** Conference, meetup or publication. */
+  venue: string;
+  /** YYYY-MM or YYYY-MM-DD. */
+  date: string;
+  url?: string;
+  desc?: string;
+}
+
+export interface Testimonial {
+  quote: string;
+  author: string;
+  /** e.g. "Engineering Manager, MLGW". */
+  role?: string;
+  /** Where the quote was given, e.g. a LinkedIn recommendation. */
+  url?: string;
+}
+
+export const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/** Hours open for calls on the given days, as HH:MM in the availability's time zone. */
+export interface AvailabilityWindow {
+  days: Weekday[];
+  start: string;
+  end: string;
+}
+
+/** Days off, inclusive; a single day has `from` equal to `to`. */
+export interface Blackout {
+  from: string;
+  to: string;
+}
+
+/** When visitors can ask for a call (content/availability.yaml); see src/lib/meeting.ts. */
+export interface Availability {
+  /** IANA time zone the windows and blackout dates are in, e.g. "America/Chicago". */
+  timeZone: string;
+  /** Length of a call; slots in a window start this far apart. */
+  slotMinutes: number;
+  /** How far from now the earliest slot offered is. */
+  noticeHours: number;
+  /** How many days ahead slots are offered. */
+  daysAhead: number;
+  weekly: AvailabilityWindow[];
+  blackout: Blackout[];
+}
+
+/** Frontmatter of a post in content/writing/<slug>.md. */
+export interface PostMeta {
+  title: string;
+  /** ISO date (YYYY-MM-DD). */
+  date: string;
+  tags: string[];
+  draft: boolean;
+  summary?: string;
+}
+
+export interface Post extends PostMeta {
+  slug: string;
+  /** Plain-text teaser: `summary`, or the start of the first paragraph. */
+  excerpt: string;
+  readingMinutes: number;
+  html: string;
+}
+
+export interface SeoCopy {
+  title: string;
+  description: string;
+  ogTitle: string;
+  ogDescription: string;
+}
+
+export interface Profile {
+  name: string;
+  headline: string;
+  /** Used in structured data (JSON-LD) for search engines. */
+  jobTitle?: string;
+  organization?: string;
+  /** Markdown; rendered to `summaryHtml` by the content plugin. */
+  summary: string;
+  heroImage: string;
+  heroImageAlt: string;
+  email: string;
+  /** Optional link to a downloadable résumé (e.g. a PDF under public/). */
+  resume?: string;
+  /** Public origin of the deployed site, used for absolute links in feeds. */
+  siteUrl: string;
+  socials: { github: string; linkedin: string };
+  seo: SeoCopy;
+  /** Accent palette visitors see until they pick another; also colors the social cards. */
+  palette: PaletteId;
+}
+
+/**
+ * Optional copy for another locale, from content/i18n/<locale>.yaml. Anything
+ * left out falls back to the default-locale files. Projects, experience and
+ * posts are not translated.
+ */
+export interface ContentTranslation {
+  profile: Partial<Pick<Profile, "headline" | "summary" | "heroImageAlt">> & { seo: Partial<SeoCopy> };
+  /** Markdown replacing about.md. */
+  about?: string;
+  /** Nav labels keyed by section id. */
+  nav: Record<string, string>;
+}
+
+/** A `ContentTranslation` after Markdown rendering, as shipped in `virtual:content`. */
+export interface LocalizedCopy {
+  profile: Partial<Pick<Profile, "headline" | "heroImageAlt">> & { summaryHtml?: string; seo: Partial<SeoCopy> };
+  about?: { html: string };
+  nav: Record<string, string>;
+}
+
+/** Shape of the `virtual:content` module after loading and rendering. */
+export interface SiteContent {
+  profile: Profile & { summaryHtml: string };
+  about: { html: string };
+  /** Every section in page order, hidden ones included. */
+  sections: SectionConfig[];
+  /** The visible sections listed in the header. */
+  nav: NavItem[];
+  skills: Skill[];
+  projects: Project[];
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  certifications: Certification[];
+  talks: Talk[];
+  testimonials: Testimonial[];
+  /** Newest first; drafts only outside production builds. */
+  posts: Post[];
+  /** Keyed by locale id; the default locale never has an entry. */
+  translations: Record<string, LocalizedCopy>;
+  /** Absent when the profile takes no call requests. */
+  availability?: Availability;
+}
+
+/** Structured data files, keyed by the name they are exposed under. */
+export const CONTENT_FILES = {
+  profile: "profile.yaml",
+  sections: "sections.yaml",
+  skills: "skills.yaml",
+  projects: "projects.yaml",
+  experience: "experience.yaml",
+  education: "education.yaml",
+  certifications: "certifications.yaml",
+  talks: "talks.yaml",
+  testimonials: "testimonials.yaml",
+} as const;
+
+export type ContentKey = keyof typeof CONTENT_FILES;
+
+export type RawContent = { [K in ContentKey]: unknown };
+
+/** Snapshot of imported GitHub repository data, committed alongside the content. */
+export const GITHUB_SNAPSHOT_FILE = "github.json";
+
+/** Optional weekly availability for call requests through the contact form. */
+export const AVAILABILITY_FILE = "availability.yaml";
+
+/** Directory holding one optional Markdown case study per project slug. */
+export const CASE_STUDY_DIR = "projects";
+
+/** Directory holding Markdown posts for the Writing section, one per slug. */
+export const POSTS_DIR = "writing";
+
+/** Directory holding one optional `<locale>.yaml` of translated copy per locale. */
+export const TRANSLATIONS_DIR = "i18n";
+
+export function slugify(value: string): string {
+  return value
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Key for matching skill names with stack tags; ignores case and punctuation ("PL/SQL" = "plsql"). */
+export function skillKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9+#]/g, "");
+}
+
+export function skillNames(skill: Pick<Skill, "label" | "aliases">): string[] {
+  return [skill.label, ...skill.aliases];
+}
+
+export interface ContentIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+export class ContentError extends Error {
+  readonly issues: ContentIssue[];
+
+  /** `dir` is the content directory the issues' files are in, as shown in the message. */
+  constructor(issues: ContentIssue[], dir?: string) {
+    super(formatIssues(issues, undefined, dir));
+    this.name = "ContentError";
+    this.issues = issues;
+  }
+}
+
+export function formatIssues(issues: ContentIssue[], heading = "Invalid portfolio content", dir = "content"): string {
+  const lines = issues.map((i) => `  ${dir}/${i.file}: ${i.path} ${i.message}`);
+  return `${heading} (${issues.length} problem${issues.length === 1 ? "" : "s"}):\n${lines.join("\n")}`;
+}
+
+// ── Field readers ────────────────────────────────────────────────────────────
+// Each reader records an issue and returns a harmless fallback, so a single
+// pass reports every problem in a file instead of stopping at the first one.
+// Fields of a missing object are skipped rather than reported one by one.
+
+type Obj = Record<string, unknown>;
+
+interface Ctx {
+  file: string;
+  issues: ContentIssue[];
+}
+
+function report(ctx: Ctx, path: string, message: string) {
+  ctx.issues.push({ file: ctx.file, path, message });
+}
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function object(ctx: Ctx, value: unknown, path: string): Obj | undefined {
+  if (value === undefined || value === null) {
+    report(ctx, path, "is required");
+    return undefined;
+  }
+  if (!isObject(value)) {
+    report(ctx, path, "must be an object");
+    return undefined;
+  }
+  return value;
+}
+
+function list(ctx: Ctx, value: unknown, path: string): unknown[] {
+  if (value === undefined || value === null) {
+    report(ctx, path, "is required");
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    report(ctx, path, "must be a list");
+    return [];
+  }
+  return value;
+}
+
+function text(ctx: Ctx, obj: Obj | undefined, key: string, path: string): string {
+  if (!obj) return "";
+  const value = obj[key];
+  const field = `${path}.${key}`;
+  if (value === undefined || value === null) {
+    report(ctx, field, "is required");
+    return "";
+  }
+  if (typeof value !== "string") {
+    report(ctx, field, "must be a string");
+    return "";
+  }
+  if (!value.trim()) report(ctx, field, "must not be empty");
+  return value;
+}
+
+function optionalText(ctx: Ctx, obj: Obj | undefined, key: string, path: string): string | undefined {
+  if (!obj || obj[key] === undefined || obj[key] === null) return undefined;
+  return text(ctx, obj, key, path);
+}
+
+function textList(ctx: Ctx, obj: Obj | undefined, key: string, path: string): string[] {
+  if (!obj) return [];
+  const field = `${path}.${key}`;
+  return list(ctx, obj[key], field).flatMap((item, i) => {
+    if (typeof item === "string" && item.trim()) return [item];
+    report(ctx, `${field}[${i}]`, "must be a non-empty string");
+    return [];
+  });
+}
+
+function optionalNumber(ctx: Ctx, obj: Obj | undefined, key: string, path: string, min: number, max = Infinity): number | undefined {
+  const value = obj?.[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    report(ctx, `${path}.${key}`, max === Infinity ? `must be a number of at least ${min}` : `must be a number from ${min} to ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+function choice<T extends string>(ctx: Ctx, obj: Obj | undefined, key: string, path: string, allowed: readonly T[]): T | undefined {
+  const value = text(ctx, obj, key, path);
+  if (!value) return undefined;
+  if ((allowed as readonly string[]).includes(value)) return value as T;
+  report(ctx, `${path}.${key}`, `must be one of ${allowed.join(", ")} (got "${value}")`);
+  return undefined;
+}
+
+function optionalBoolean(ctx: Ctx, obj: Obj | undefined, key: string, path: string): boolean {
+  const value = obj?.[key] ?? false;
+  if (typeof value === "boolean") return value;
+  report(ctx, `${path}.${key}`, "must be true or false");
+  return false;
+}
+
+// Most dates need at least a month; experience dates may be just a year.
+const DATE_PRECISION = {
+  month: { pattern: /^\d{4}-\d{2}(-\d{2})?$/, written: "YYYY-MM or YYYY-MM-DD" },
+  year: { pattern: /^\d{4}(-\d{2}){0,2}$/, written: "YYYY, YYYY-MM or YYYY-MM-DD" },
+};
+
+type DatePrecision = keyof typeof DATE_PRECISION;
+
+function checkDate(ctx: Ctx, field: string, value: string | undefined, precision: DatePrecision) {
+  const { pattern, written } = DATE_PRECISION[precision];
+  if (value && (!pattern.test(value) || Number.isNaN(Date.parse(value)))) {
+    report(ctx, field, `must be a date written as ${written} (got "${value}")`);
+  }
+}
+
+function monthDate(ctx: Ctx, obj: Obj | undefined, key: string, path: string, precision: DatePrecision = "month"): string {
+  // YAML reads an unquoted year as a number, which would otherwise just be "must be a string".
+  if (typeof obj?.[key] === "number") {
+    report(ctx, `${path}.${key}`, `must be quoted, e.g. "${obj[key]}"`);
+    return "";
+  }
+  const value = text(ctx, obj, key, path);
+  checkDate(ctx, `${path}.${key}`, value, precision);
+  return value;
+}
+
+function optionalMonthDate(
+  ctx: Ctx,
+  obj: Obj | undefined,
+  key: string,
+  path: string,
+  precision: DatePrecision = "month",
+): string | undefined {
+  if (!obj || obj[key] === undefined || obj[key] === null) return undefined;
+  return monthDate(ctx, obj, key, path, precision);
+}
+
+/** Partial ISO dates compare correctly once a start is padded to its first day and an end to its last. */
+function fullDate(date: string, end: boolean): string {
+  return date + (end ? "-12-31" : "-01-01").slice(date.length - 4);
+}
+
+/** Lists in files that may be left empty (only comments) until their section is switched on. */
+function optionalList(ctx: Ctx, value: unknown, path: string): unknown[] {
+  return value === undefined || value === null ? [] : list(ctx, value, path);
+}
+
+const IMAGE_SRC = /^(\/|https:\/\/)/;
+
+function imageSrc(ctx: Ctx, obj: Obj | undefined, path: string): string {
+  const src = text(ctx, obj, "src", path);
+  if (src && !IMAGE_SRC.test(src)) report(ctx, `${path}.src`, `must be a path under public/ starting with / or an https URL (got "${src}")`);
+  return src;
+}
+
+function optionalImage(ctx: Ctx, obj: Obj | undefined, key: string, path: string): ImageRef | undefined {
+  if (!obj || obj[key] === undefined || obj[key] === null) return undefined;
+  const field = `${path}.${key}`;
+  const image = object(ctx, obj[key], field);
+  return { src: imageSrc(ctx, image, field), alt: text(ctx, image, "alt", field) };
+}
+
+function screenshots(ctx: Ctx, obj: Obj | undefined, key: string, path: string): Screenshot[] {
+  if (!obj || obj[key] === undefined) return [];
+  const field = `${path}.${key}`;
+  return list(ctx, obj[key], field).map((item, i) => {
+    const itemPath = `${field}[${i}]`;
+    const shot = object(ctx, item, itemPath);
+    return {
+      src: imageSrc(ctx, shot, itemPath),
+      alt: text(ctx, shot, "alt", itemPath),
+      caption: optionalText(ctx, shot, "caption", itemPath),
+    };
+  });
+}
+
+function unique<T>(ctx: Ctx, items: T[], key: (item: T) => string, path: (i: number) => string, what: string) {
+  const seen = new Map<string, number>();
+  items.forEach((item, i) => {
+    const k = key(item).trim().toLowerCase();
+    if (!k) return;
+    const first = seen.get(k);
+    if (first === undefined) seen.set(k, i);
+    else report(ctx, path(i), `duplicates the ${what} of ${path(first)} ("${key(item)}")`);
+  });
+}
+
+// ── File validators ──────────────────────────────────────────────────────────
+
+function validateProfile(ctx: Ctx, raw: unknown): Profile {
+  const p = object(ctx, raw, "profile");
+  const socials = p && object(ctx, p.socials, "profile.socials");
+  const seo = p && object(ctx, p.seo, "profile.seo");
+  return {
+    name: text(ctx, p, "name", "profile"),
+    headline: text(ctx, p, "headline", "profile"),
+    jobTitle: optionalText(ctx, p, "jobTitle", "profile"),
+    organization: optionalText(ctx, p, "organization", "profile"),
+    summary: text(ctx, p, "summary", "profile"),
+    heroImage: text(ctx, p, "heroImage", "profile"),
+    heroImageAlt: text(ctx, p, "heroImageAlt", "profile"),
+    email: text(ctx, p, "email", "profile"),
+    resume: optionalText(ctx, p, "resume", "profile"),
+    siteUrl: text(ctx, p, "siteUrl", "profile"),
+    socials: {
+      github: text(ctx, socials, "github", "profile.socials"),
+      linkedin: text(ctx, socials, "linkedin", "profile.socials"),
+    },
+    seo: {
+      title: text(ctx, seo, "title", "profile.seo"),
+      description: text(ctx, seo, "description", "profile.seo"),
+      ogTitle: text(ctx, seo, "ogTitle", "profile.seo"),
+      ogDescription: text(ctx, seo, "ogDescription", "profile.seo"),
+    },
+    palette:
+      (p?.palette === undefined ? undefined : choice(ctx, p, "palette", "profile", PALETTES.map((x) => x.id))) ?? DEFAULT_PALETTE,
+  };
+}
+
+function validateSections(ctx: Ctx, raw: unknown): SectionConfig[] {
+  const sections = list(ctx, raw, "sections").map((item, i) => {
+    const path = `sections[${i}]`;
+    const s = object(ctx, item, path);
+    return {
+      id: choice(ctx, s, "id", path, SECTION_IDS) ?? SECTION_IDS[0],
+      label: text(ctx, s, "label", path),
+      nav: s?.nav === undefined ? true : optionalBoolean(ctx, s, "nav", path),
+      hidden: optionalBoolean(ctx, s, "hidden", path),
+    };
+  });
+  unique(ctx, sections, (s) => s.id, (i) => `sections[${i}].id`, "id");
+  return sections;
+}
+
+function validateSkills(ctx: Ctx, raw: unknown): Skill[] {
+  const categories = SKILL_CATEGORIES.map((c) => c.id);
+  const skills = list(ctx, raw, "skills").map((item, i) => {
+    const path = `skills[${i}]`;
+    const s = object(ctx, item, path);
+    return {
+      label: text(ctx, s, "label", path),
+      category: choice(ctx, s, "category", path, categories) ?? categories[0],
+      proficiency: optionalNumber(ctx, s, "proficiency", path, 1, 5),
+      years: optionalNumber(ctx, s, "years", path, 0),
+      icon: s?.icon === undefined ? undefined : choice(ctx, s, "icon", path, SKILL_ICONS),
+      aliases: s?.aliases === undefined ? [] : textList(ctx, s, "aliases", path),
+    };
+  });
+  unique(ctx, skills, (s) => s.label, (i) => `skills[${i}].label`, "label");
+
+  // An alias shared by two skills would make links ambiguous.
+  const owner = new Map<string, string>(skills.map((s) => [skillKey(s.label), s.label]));
+  skills.forEach((s, i) =>
+    s.aliases.forEach((alias, j) => {
+      const other = owner.get(skillKey(alias));
+      if (other !== undefined && other !== s.label) {
+        report(ctx, `skills[${i}].aliases[${j}]`, `"${alias}" already names the skill "${other}"`);
+      } else {
+        owner.set(skillKey(alias), s.label);
+      }
+    }),
+  );
+  return skills;
+}
+
+const REPO = /^[\w.-]+\/[\w.-]+$/;
+
+function validateProjects(ctx: Ctx, raw: unknown): Project[] {
+  const projects = list(ctx, raw, "projects").map((item, i) => {
+    const path = `projects[${i}]`;
+    const p = object(ctx, item, path);
+    const links = p && object(ctx, p.links, `${path}.links`);
+    const title = text(ctx, p, "title", path);
+    const repo = optionalText(ctx, p, "repo", path);
+    if (repo && !REPO.test(repo)) report(ctx, `${path}.repo`, `must be a GitHub repository written as owner/repo (got "${repo}")`);
+    const slug = optionalText(ctx, p, "slug", path) ?? slugify(title);
+    if (slug && slug !== slugify(slug)) report(ctx, `${path}.slug`, "may only contain lowercase letters, digits and dashes");
+    return {
+      slug,
+      title,
+      desc: repo ? (optionalText(ctx, p, "desc", path) ?? "") : text(ctx, p, "desc", path),
+      stack: textList(ctx, p, "stack", path),
+      links: {
+        github: repo
+          ? (optionalText(ctx, links, "github", `${path}.links`) ?? `https://github.com/${repo}`)
+          : text(ctx, links, "github", `${path}.links`),
+        live: text(ctx, links, "live", `${path}.links`),
+      },
+      repo,
+      date: optionalMonthDate(ctx, p, "date", path),
+      featured: optionalBoolean(ctx, p, "featured", path),
+      cover: optionalImage(ctx, p, "cover", path),
+      gallery: screenshots(ctx, p, "gallery", path),
+    };
+  });
+  unique(ctx, projects, (p) => p.title, (i) => `projects[${i}].title`, "title");
+  unique(ctx, projects, (p) => p.slug, (i) => `projects[${i}].slug`, "slug");
+  return projects;
+}
+
+function validateExperience(ctx: Ctx, raw: unknown): ExperienceEntry[] {
+  return list(ctx, raw, "experience").map((item, i) => {
+    const path = `experience[${i}]`;
+    const e = object(ctx, item, path);
+    const roles = (e ? list(ctx, e.roles, `${path}.roles`) : []).map((item, j) => {
+      const rolePath = `${path}.roles[${j}]`;
+      const r = object(ctx, item, rolePath);
+      const start = monthDate(ctx, r, "start", rolePath, "year");
+      const end = optionalMonthDate(ctx, r, "end", rolePath, "year");
+      if (start && end && fullDate(end, true) < fullDate(start, false)) report(ctx, `${rolePath}.end`, `is before start (${start})`);
+      return {
+        title: text(ctx, r, "title", rolePath),
+        start,
+        end,
+        points: r?.points === undefined ? [] : textList(ctx, r, "points", rolePath),
+        stack: r?.stack === undefined ? [] : textList(ctx, r, "stack", rolePath),
+      };
+    });
+    if (e && Array.isArray(e.roles) && roles.length === 0) report(ctx, `${path}.roles`, "must list at least one role");
+    return {
+      org: text(ctx, e, "org", path),
+      url: optionalText(ctx, e, "url", path),
+      location: optionalText(ctx, e, "location", path),
+      roles,
+    };
+  });
+}
+
+function validateEducation(ctx: Ctx, raw: unknown): EducationEntry[] {
+  return optionalList(ctx, raw, "education").map((item, i) => {
+    const path = `education[${i}]`;
+    const e = object(ctx, item, path);
+    return {
+      school: text(ctx, e, "school", path),
+      degree: text(ctx, e, "degree", path),
+      period: text(ctx, e, "period", path),
+      points: e?.points === undefined ? [] : textList(ctx, e, "points", path),
+    };
+  });
+}
+
+function validateCertifications(ctx: Ctx, raw: unknown): Certification[] {
+  return optionalList(ctx, raw, "certifications").map((item, i) => {
+    const path = `certifications[${i}]`;
+    const c = object(ctx, item, path);
+    return {
+      name: text(ctx, c, "name", path),
+      issuer: text(ctx, c, "issuer", path),
+      date: monthDate(ctx, c, "date", path),
+      expires: optionalMonthDate(ctx, c, "expires", path),
+      url: optionalText(ctx, c, "url", path),
+    };
+  });
+}
+
+function validateTalks(ctx: Ctx, raw: unknown): Talk[] {
+  return optionalList(ctx, raw, "talks").map((item, i) => {
+    const path = `talks[${i}]`;
+    const t = object(ctx, item, path);
+    return {
+      title: text(ctx, t, "title", path),
+      kind: choice(ctx, t, "kind", path, TALK_KINDS) ?? TALK_KINDS[0],
+      venue: text(ctx, t, "venue", path),
+      date: monthDate(ctx, t, "date", path),
+      url: optionalText(ctx, t, "url", path),
+      desc: optionalText(ctx, t, "desc", path),
+    };
+  });
+}
+
+function validateTestimonials(ctx: Ctx, raw: unknown): Testimonial[] {
+  return optionalList(ctx, raw, "testimonials").map((item, i) => {
+    const path = `testimonials[${i}]`;
+    const t = object(ctx, item, path);
+    return {
+      quote: text(ctx, t, "quote", path),
+      author: text(ctx, t, "author", path),
+      role: optionalText(ctx, t, "role", path),
+      url: optionalText(ctx, t, "url", path),
+    };
+  });
+}
+
+export type ValidatedContent = Omit<SiteContent, "profile" | "about" | "posts" | "translations" | "availability"> & {
+  profile: Profile;
+};
+
+type ValidatedFiles = { [K in ContentKey]: ValidatedContent[K] };
+
+const VALIDATORS: { [K in ContentKey]: (ctx: Ctx, raw: unknown) => ValidatedFiles[K] } = {
+  profile: validateProfile,
+  sections: validateSections,
+  skills: validateSkills,
+  projects: validateProjects,
+  experience: validateExperience,
+  education: validateEducation,
+  certifications: validateCertifications,
+  talks: validateTalks,
+  testimonials: validateTestimonials,
+};
+
+/** The file listing each section's entries, for sections that have one. */
+const SECTION_DATA: Partial<Record<SectionId, ContentKey>> = {
+  skills: "skills",
+  projects: "projects",
+  experience: "experience",
+  education: "education",
+  certifications: "certifications",
+  talks: "talks",
+  testimonials: "testimonials",
+};
+
+/**
+ * Validate parsed content files. Returns the typed content together with every
+ * issue found; callers decide whether issues are fatal.
+ */
+export function validateContent(raw: RawContent): { content: ValidatedContent; issues: ContentIssue[] } {
+  const issues: ContentIssue[] = [];
+  const ctx = (key: ContentKey): Ctx => ({ file: CONTENT_FILES[key], issues });
+
+  const files = Object.fromEntries(
+    (Object.keys(CONTENT_FILES) as ContentKey[]).map((key) => [key, VALIDATORS[key](ctx(key), raw[key])]),
+  ) as ValidatedFiles;
+
+  // A visible section with nothing to list would leave an empty heading and a dead nav link.
+  files.sections.forEach((s, i) => {
+    const data = SECTION_DATA[s.id];
+    if (!s.hidden && data && (files[data] as unknown[]).length === 0) {
+      report(ctx("sections"), `sections[${i}]`, `is shown but ${CONTENT_FILES[data]} has no entries; add some or set \`hidden: true\``);
+    }
+  });
+
+  const nav = files.sections.filter((s) => !s.hidden && s.nav).map(({ id, label }) => ({ id, label }));
+  return { content: { ...files, nav }, issues };
+}
+
+/** Validate one structured file on its own, e.g. while it is edited in the /admin editor. */
+export function validateContentFile<K extends ContentKey>(key: K, raw: unknown): { value: ValidatedFiles[K]; issues: ContentIssue[] } {
+  const issues: ContentIssue[] = [];
+  const value = VALIDATORS[key]({ file: CONTENT_FILES[key], issues }, raw);
+  return { value, issues };
+}
+
+/**
+ * Validate the frontmatter of a case study file (everything but the Markdown
+ * body). Screenshots used to be listed here; they now live with the project.
+ */
+export function validateCaseStudyMeta(file: string, raw: unknown): { issues: ContentIssue[] } {
+  const issues: ContentIssue[] = [];
+  const ctx: Ctx = { file, issues };
+  const meta = raw === undefined ? {} : object(ctx, raw, "frontmatter");
+  if (meta?.gallery !== undefined) report(ctx, "gallery", `has moved to the project's \`gallery\` in ${CONTENT_FILES.projects}`);
+  return { issues };
+}
+
+/** Validate content/github.json. A missing file is an empty snapshot. */
+export function validateGithubSnapshot(raw: unknown): { snapshot: GithubSnapshot; issues: ContentIssue[] } {
+  const issues: ContentIssue[] = [];
+  const ctx: Ctx = { file: GITHUB_SNAPSHOT_FILE, issues };
+  if (raw === undefined) return { snapshot: { repos: {} }, issues };
+  const root = object(ctx, raw, "snapshot");
+  const repos = root && object(ctx, root.repos, "repos");
+  const snapshot: GithubSnapshot = { updatedAt: optionalText(ctx, root, "updatedAt", "snapshot"), repos: {} };
+  for (const [name, value] of Object.entries(repos ?? {})) {
+    const path = `repos["${name}"]`;
+    const r = object(ctx, value, path);
+    if (!r) continue;
+    snapshot.repos[name] = {
+      url: text(ctx, r, "url", path),
+      description: optionalText(ctx, r, "description", path),
+      languages: textList(ctx, r, "languages", path),
+      stars: optionalNumber(ctx, r, "stars", path, 0) ?? 0,
+      pushedAt: text(ctx, r, "pushedAt", path),
+      topics: textList(ctx, r, "topics", path),
+    };
+  }
+  return { snapshot, issues };
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CLOCK_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function clockTime(ctx: Ctx, obj: Obj | undefined, key: string, path: string): string {
+  const value = text(ctx, obj, key, path);
+  if (value && !CLOCK_TIME.test(value)) report(ctx, `${path}.${key}`, `must be a time written as HH:MM, 00:00 to 23:59 (got "${value}")`);
+  return value;
+}
+
+function isoDate(ctx: Ctx, field: string, value: unknown): string {
+  if (typeof value === "string" && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value))) return value;
+  report(ctx, field, `must be a date written as YYYY-MM-DD (got ${JSON.stringify(value)})`);
+  return "";
+}
+
+/** Whether Intl knows `value` as a time zone. */
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate content/availability.yaml. A missing file means no call requests.
+ * Blackout entries are a date or a `{ from, to }` range.
+ */
+export function validateAvailability(raw: unknown): { availability?: Availability; issues: ContentIssue[] } {
+  const issues: ContentIssue[] = [];
+  const ctx: Ctx = { file: AVAILABILITY_FILE, issues };
+  if (raw === undefined) return { issues };
+  const root = object(ctx, raw, "availability");
+  const timeZone = text(ctx, root, "timeZone", "availability");
+  if (timeZone && !isTimeZone(timeZone)) {
+    report(ctx, "availability.timeZone", `must be an IANA time zone such as "Europe/Madrid" (got "${timeZone}")`);
+  }
+
+  const weekly = (root ? list(ctx, root.weekly, "weekly") : []).map((item, i) => {
+    const path = `weekly[${i}]`;
+    const w = object(ctx, item, path);
+    const days = textList(ctx, w, "days", path).flatMap((day, j) => {
+      if ((WEEKDAYS as readonly string[]).includes(day)) return [day as Weekday];
+      report(ctx, `${path}.days[${j}]`, `must be one of ${WEEKDAYS.join(", ")} (got "${day}")`);
+      return [];
+    });
+    const window = { days, start: clockTime(ctx, w, "start", path), end: clockTime(ctx, w, "end", path) };
+    if (CLOCK_TIME.test(window.start) && CLOCK_TIME.test(window.end) && window.start >= window.end) {
+      report(ctx, `${path}.end`, `must be later than start (${window.start})`);
+    }
+    return window;
+  });
+
+  const blackout = optionalList(ctx, root?.blackout, "blackout").map((item, i) => {
+    const path = `blackout[${i}]`;
+    if (!isObject(item)) {
+      const day = isoDate(ctx, path, item);
+      return { from: day, to: day };
+    }
+    const range = { from: isoDate(ctx, `${path}.from`, item.from), to: isoDate(ctx, `${path}.to`, item.to) };
+    if (range.from && range.to && range.from > range.to) report(ctx, `${path}.to`, `must not be before from (${range.from})`);
+    return range;
+  });
+
+  const availability: Availability = {
+    timeZone,
+    slotMinutes: optionalNumber(ctx, root, "slotMinutes", "availability", 10, 240) ?? 30,
+    noticeHours: optionalNumber(ctx, root, "noticeHours", "availability", 0) ?? 24,
+    daysAhead: optionalNumber(ctx, root, "daysAhead", "availability", 1, 90) ?? 14,
+    weekly,
+    blackout,
+  };
+  return { availability, issues };
+}
+
+/** Validate a content/i18n/<locale>.yaml file. Nav ids must be sections in sections.yaml. */
+export function validateTranslation(
+  file: string,
+  raw: unknown,
+  sectionIds: string[],
+): { translation: ContentTranslation; issues: ContentIssue[] } {
+  const issues: ContentIssue[] = [];
+  const ctx: Ctx = { file, issues };
+  const root = raw === undefined || raw === null ? {} : object(ctx, raw, "translation");
+  const p = root?.profile === undefined ? undefined : object(ctx, root.profile, "profile");
+  const seo = p?.seo === undefined ? undefined : object(ctx, p.seo, "profile.seo");
+  const nav = root?.nav === undefined ? undefined : object(ctx, root.nav, "nav");
+
+  const translation: ContentTranslation = {
+    profile: {
+      headline: optionalText(ctx, p, "headline", "profile"),
+      summary: optionalText(ctx, p, "summary", "profile"),
+      heroImageAlt: optionalText(ctx, p, "heroImageAlt", "profile"),
+      seo: {
+        title: optionalText(ctx, seo, "title", "profile.seo"),
+        description: optionalText(ctx, seo, "description", "profile.seo"),
+        ogTitle: optionalText(ctx, seo, "ogTitle", "profile.seo"),
+        ogDescription: optionalText(ctx, seo, "ogDescription", "profile.seo"),
+      },
+    },
+    about: optionalText(ctx, root, "about", "translation"),
+    nav: {},
+  };
+  for (const id of Object.keys(nav ?? {})) {
+    if (!sectionIds.includes(id)) report(ctx, `nav.${id}`, `does not match any section id in ${CONTENT_FILES.sections}`);
+    else translation.nav[id] = text(ctx, nav, id, "nav");
+  }
+  return { translation, issues };
+}
+
+/** Validate the frontmatter of a Writing post. */
+export function validatePostMeta(file: string, raw: unknown): { meta: PostMeta; issues: ContentIssue[] } {
+  const issues: ContentIssue[] = [];
+  const ctx: Ctx = { file, issues };
+  const m = object(ctx, raw, "frontmatter");
+  const date = text(ctx, m, "date", "frontmatter");
+  if (date && (!ISO_DATE.test(date) || Number.isNaN(Date.parse(date)))) {
+    report(ctx, "frontmatter.date", `must be a date written as YYYY-MM-DD (got "${date}")`);
+  }
+  return {
+    meta: {
+      title: text(ctx, m, "title", "frontmatter"),
+      date,
+      tags: m?.tags === undefined ? [] : textList(ctx, m, "tags", "frontmatter"),
+      draft: optionalBoolean(ctx, m, "draft", "frontmatter"),
+      summary: optionalText(ctx, m, "summary", "frontmatter"),
+    },
+    issues,
+  };
+}
+
+function words(name: string): string[] {
+  return name.toLowerCase().split(/[^a-z0-9+#]+/).filter(Boolean);
+}
+
+/**
+ * Stack tags (in projects.yaml and experience.yaml) that look like a skill but
+ * aren't spelled like its label or one of its aliases, e.g. "Oracle" next to
+ * the skill "Oracle SQL". Such tags silently miss the skill → project links,
+ * so the content plugin prints these as build warnings.
+ */
+export function skillNameWarnings(content: Pick<ValidatedContent, "skills" | "projects" | "experience">): ContentIssue[] {
+  const names = content.skills.flatMap((s) => skillNames(s).map((name) => ({ name, skill: s.label })));
+  const issues: ContentIssue[] = [];
+
+  const check = (file: string, path: string, tag: string) => {
+    if (names.some((n) => n.name === tag)) return;
+    const key = skillKey(tag);
+    const tagWords = words(tag);
+    const near =
+      names.find((n) => skillKey(n.name) === key) ??
+      names.find((n) => {
+        const nameWords = words(n.name);
+        const [short, long] = tagWords.length <= nameWords.length ? [tagWords, nameWords] : [nameWords, tagWords];
+        return short.length > 0 && short.every((w) => long.includes(w));
+      });
+    if (near) {
+      issues.push({
+        file,
+        path,
+        message: `"${tag}" looks like the skill "${near.skill}"; write it as "${near.name}" or add it to that skill's aliases`,
+      });
+    }
+  };
+
+  content.projects.forEach((p, i) => p.stack.forEach((t, j) => check(CONTENT_FILES.projects, `projects[${i}].stack[${j}]`, t)));
+  content.experience.forEach((e, i) =>
+    e.roles.forEach((r, j) => r.stack.forEach((t, k) => check(CONTENT_FILES.experience, `experience[${i}].roles[${j}].stack[${k}]`, t))),
+  );
+  return issues;
+}
+
+/**
+ * Copy that `locales` still show in the default language: a missing
+ * i18n/<locale>.yaml, or profile fields, About and nav labels it leaves out.
+ * Printed as build warnings; the site falls back to the original text.
+ */
+export function untranslatedContent(content: Pick<SiteContent, "nav" | "translations">, locales: string[]): ContentIssue[] {
+  return locales.flatMap((locale) => {
+    const file = `${TRANSLATIONS_DIR}/${locale}.yaml`;
+    const t = content.translations[locale];
+    if (!t) return [{ file, path: "(file)", message: "is missing; every page shows the default-language copy" }];
+    const missing = [
+      ...(["headline", "summaryHtml", "heroImageAlt"] as const)
+        .filter((k) => t.profile[k] === undefined)
+        .map((k) => `profile.${k === "summaryHtml" ? "summary" : k}`),
+      ...(["title", "description", "ogTitle", "ogDescription"] as const)
+        .filter((k) => t.profile.seo[k] === undefined)
+        .map((k) => `profile.seo.${k}`),
+      ...(t.about ? [] : ["about"]),
+      ...content.nav.filter((n) => !t.nav[n.id]).map((n) => `nav.${n.id}`),
+    ];
+    return missing.map((path) => ({ file, path, message: "is not translated" }));
+  });
+}
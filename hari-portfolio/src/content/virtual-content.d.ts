@@ -0,0 +1,21 @@
+// Generated at build time by plugins/content.ts from the files in /content.
+declare module "virtual:content" {
+  type SiteContent = import("./schema").SiteContent;
+
+  export const profile: SiteContent["profile"];
+  export const about: SiteContent["about"];
+  export const sections: SiteContent["sections"];
+  export const nav: SiteContent["nav"];
+  export const skills: SiteContent["skills"];
+  export const projects: SiteContent["projects"];
+  export const experience: SiteContent["experience"];
+  export const education: SiteContent["education"];
+  export const certifications: SiteContent["certifications"];
+  export const talks: SiteContent["talks"];
+  export const testimonials: SiteContent["testimonials"];
+  export const posts: SiteContent["posts"];
+  export const translations: SiteContent["translations"];
+  export const availability: SiteContent["availability"];
+  /** The build's date (YYYY-MM-DD). */
+  export const builtOn: string;
+}
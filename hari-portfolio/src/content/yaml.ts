@@ -0,0 +1,36 @@
+import { Document, isNode, isScalar, isSeq, visit } from "yaml";
+
+/**
+ * Writes content data back out as YAML in the style of the hand-edited files:
+ * the file's leading comment block kept, a blank line between list entries,
+ * short lists of plain values inline (`stack: [Java, Python]`) and date-like
+ * strings quoted (`date: "2025-06"`, `start: "2025"`). Used by the dev-only
+ * /admin editor for downloads and by plugins/admin.ts when saving.
+ */
+
+// Longest list, counting its values, that still goes on one line.
+const INLINE_LIST = 60;
+
+/** The comment lines at the top of a YAML file, e.g. the field notes in projects.yaml. */
+export function yamlHeader(source: string): string {
+  return /^(?:#.*\n)*/.exec(source)?.[0] ?? "";
+}
+
+export function toContentYaml(data: unknown, header = ""): string {
+  const doc = new Document(data);
+  visit(doc, {
+    Seq(_, node) {
+      const values = node.items.filter(isScalar).map((item) => String(item.value));
+      if (values.length === node.items.length && values.join(", ").length <= INLINE_LIST) node.flow = true;
+    },
+    Scalar(_, node) {
+      if (typeof node.value === "string" && /^\d{4}($|-\d{2})/.test(node.value)) node.type = "QUOTE_DOUBLE";
+    },
+  });
+  if (isSeq(doc.contents)) {
+    doc.contents.items.forEach((item, i) => {
+      if (i > 0 && isNode(item)) item.spaceBefore = true;
+    });
+  }
+  return header + doc.toString({ lineWidth: 0, flowCollectionPadding: false });
+}
@@ -0,0 +1,34 @@
+import { StrictMode } from "react";
+import { renderToString } from "react-dom/server";
+import { StaticRouter } from "react-router";
+import * as content from "virtual:content";
+import App from "./App";
+import { offlineRoutes, pageHead, prerenderRoutes, renderHead } from "./lib/head";
+import { renderRobots, renderSitemap } from "./lib/sitemap";
+import { preloadSections } from "./sections/lazy";
+
+/**
+ * Server entry used only at build time by scripts/prerender.ts to write a
+ * static HTML file (markup + head tags) for every route.
+ */
+
+export const routes = prerenderRoutes(content);
+export { offlineRoutes };
+
+/** Load the code-split sections; `render` needs them to write complete pages. */
+export const prepare = preloadSections;
+
+export function render(url: string): { html: string; head: string; lang: string } {
+  const html = renderToString(
+    <StrictMode>
+      <StaticRouter location={url}>
+        <App />
+      </StaticRouter>
+    </StrictMode>,
+  );
+  const head = pageHead(url, content);
+  return { html, head: renderHead(head), lang: head.lang };
+}
+
+export const sitemap = () => renderSitemap(content);
+export const robots = () => renderRobots(content);
@@ -0,0 +1,213 @@
+/**
+ * English UI strings — the source catalog. Every other locale translates these
+ * keys; `{name}` placeholders are filled in by `translate()`. Copy that belongs
+ * to the person (headline, summary, About, nav labels) lives in /content.
+ */
+const en = {
+  "header.menu": "Menu",
+  "locale.label": "Language",
+
+  "theme.settings": "Theme settings",
+  "theme.mode": "Mode",
+  "theme.mode.light": "Light",
+  "theme.mode.dark": "Dark",
+  "theme.mode.system": "System",
+  "theme.accent": "Accent",
+  "theme.motion": "Motion",
+  "theme.reduceMotion": "Reduce motion",
+
+  "palette.open": "Search and commands",
+  "palette.dialog": "Command palette",
+  "palette.input": "Search sections, projects, experience, skills and actions",
+  "palette.placeholder": "Search or jump to…",
+  "palette.close": "close",
+  "palette.results": "Results",
+  "palette.noMatches": "No matches for “{query}”.",
+  "palette.count.one": "{count} result",
+  "palette.count.other": "{count} results",
+  "palette.group.sections": "Sections",
+  "palette.group.projects": "Projects",
+  "palette.group.experience": "Experience",
+  "palette.group.skills": "Skills",
+  "palette.group.writing": "Writing",
+  "palette.group.actions": "Actions",
+  "palette.toggleTheme": "Toggle light/dark theme",
+  "palette.toggleMotion": "Toggle reduced motion",
+  "palette.copyEmail": "Copy email address",
+  "palette.copied": "Copied {email} to the clipboard",
+  "palette.openGithub": "Open GitHub",
+  "palette.openLinkedin": "Open LinkedIn",
+  "palette.downloadResume": "Download résumé",
+  "palette.viewResume": "View résumé",
+
+  "hero.viewProjects": "View Projects",
+  "hero.contact": "Contact Me",
+
+  "about.title": "About",
+
+  "skills.title": "Skills",
+  "skills.intro": "Tools and technologies I currently use or am leveling up on. Select one to see where I’ve used it.",
+  "skills.category.languages": "Languages & frameworks",
+  "skills.category.data": "Data",
+  "skills.category.cloud": "Cloud",
+  "skills.category.tooling": "Tooling",
+  "skills.proficiency": "Proficiency {level} of 5",
+  "skills.years.one": "{count} yr",
+  "skills.years.other": "{count} yrs",
+  "skills.usageTitle": "Where I’ve used {skill}",
+  "skills.usageEmpty": "No project or role on this site lists it yet.",
+  "skills.usageProjects": "Projects",
+  "skills.usageExperience": "Experience",
+
+  "projects.title": "Projects",
+  "projects.intro": "Selected work across agents, automation, and analytics.",
+  "projects.search": "Search projects",
+  "projects.sort": "Sort",
+  "projects.sort.featured": "Featured",
+  "projects.sort.newest": "Newest",
+  "projects.sort.oldest": "Oldest",
+  "projects.filterByStack": "Filter by stack",
+  "projects.showing": "Showing {shown} of {total} projects",
+  "projects.empty": "No projects match these filters.",
+  "projects.clearFilters": "Clear filters",
+  "projects.imagePlaceholder": "Project Image",
+  "projects.code": "Code",
+  "projects.live": "Live",
+  "projects.caseStudy": "Case study",
+  "projects.caseStudyLabel": "Case study: {title}",
+  "projects.recentlyActive": "Recently active",
+  "projects.stars": "GitHub stars",
+  "projects.updated": "Updated {date}",
+  "projects.topics": "GitHub topics",
+
+  "project.back": "All projects",
+  "project.comingSoon": "A full write-up for this project is coming soon.",
+  "project.screenshots": "Screenshots",
+  "project.enlarge": "View full size: {alt}",
+  "project.more": "More projects",
+  "project.previous": "Previous",
+  "project.next": "Next",
+
+  "experience.title": "Experience",
+  "experience.present": "Present",
+  "experience.years.one": "{count} yr",
+  "experience.years.other": "{count} yrs",
+  "experience.months.one": "{count} mo",
+  "experience.months.other": "{count} mos",
+  "experience.gap": "{duration} between roles",
+  "experience.showDetails": "Show details",
+  "experience.hideDetails": "Hide details",
+  "experience.detailsFor": "for {title} at {org}",
+
+  "education.title": "Education",
+
+  "certifications.title": "Certifications",
+  "certifications.issued": "Issued {date}",
+  "certifications.expires": "Expires {date}",
+  "certifications.verify": "Verify",
+  "certifications.verifyLabel": "Verify {name}",
+
+  "talks.title": "Talks & publications",
+  "talks.kind.talk": "Talk",
+  "talks.kind.publication": "Publication",
+
+  "testimonials.title": "Kind words",
+
+  "writing.title": "Writing",
+  "writing.intro": "Engineering notes from work and side projects.",
+  "writing.empty": "First posts are on the way.",
+  "writing.all": "All writing",
+  "writing.pageIntro": "Engineering notes on Java, Oracle, AI agents and cloud.",
+  "writing.subscribe": "Subscribe via",
+  "writing.or": "or",
+  "writing.filterByTag": "Filter by tag",
+  "writing.allTags": "All",
+  "writing.noTagged": "No posts tagged “{tag}” yet.",
+  "writing.minRead": "{minutes} min read",
+  "writing.draft": "Draft",
+
+  "contact.title": "Contact",
+  "contact.intro": "Have a project or idea? Let’s talk.",
+  "contact.introWithCall": "Have a project or idea? Send a message, or book a short call below.",
+  "contact.name": "Your name",
+  "contact.email": "Your email",
+  "contact.message": "Message",
+  "contact.messagePlaceholder": "Tell me about your project",
+  "contact.send": "Send",
+  "contact.sending": "Sending…",
+  "contact.success": "Thanks! Your message is on its way — I’ll get back to you soon.",
+  "contact.rateLimited": "Too many messages in a short time. Please try again in {minutes} min.",
+  "contact.deliveryFailed": "The message couldn’t be delivered right now. Please try again or email me directly.",
+  "contact.failed": "Something went wrong sending your message. Please try again.",
+  "contact.offline": "Couldn’t reach the server. Check your connection and try again.",
+  "contact.emailLink": "Email",
+  "contact.resumeLink": "Résumé",
+  "contact.error.name.required": "Please enter your name.",
+  "contact.error.name.too_long": "Please keep your name under {max} characters.",
+  "contact.error.email.required": "Please enter your email address.",
+  "contact.error.email.invalid": "That doesn’t look like a valid email address.",
+  "contact.error.message.required": "Please write a message.",
+  "contact.error.message.too_short": "Please write at least {min} characters.",
+  "contact.error.message.too_long": "Please keep your message under {max} characters.",
+  "contact.error.slot.unavailable": "That time is no longer available. Please pick another.",
+
+  "meeting.title": "Book a chat",
+  "meeting.optional": "optional",
+  "meeting.loading": "Loading open times…",
+  "meeting.none": "No open times right now — send a message and we’ll find one.",
+  "meeting.intro": "Pick a {minutes}-minute slot for a call. Times are in your time zone ({zone}); your message tells me what it’s about.",
+  "meeting.day": "Day for a call",
+  "meeting.noCall": "No call, just a message",
+  "meeting.times": "Open times on {day}",
+  "meeting.send": "Request call",
+  "meeting.success": "Thanks! Your call request for {when} is on its way — I’ll confirm by email with how to join.",
+  "meeting.download": "Add to calendar (.ics)",
+  "meeting.invite.summary": "Call with {name}",
+  "meeting.invite.description": "Requested through {name}’s portfolio. {name} will confirm by email with how to join.",
+
+  "footer.rights": "© {year} {name}. All rights reserved.",
+  "footer.builtWith": "Built with React · Tailwind · Framer Motion",
+
+  "consent.label": "Analytics consent",
+  "consent.body": "Can I count anonymous visits and clicks? No cookies and nothing that identifies you — just which sections and projects get attention.",
+  "consent.allow": "Allow",
+  "consent.decline": "No thanks",
+  "consent.preferences": "Analytics preferences",
+
+  "update.label": "Site update",
+  "update.body": "A new version of this site is available.",
+  "update.reload": "Reload",
+  "update.dismiss": "Later",
+
+  "lightbox.label": "Screenshot {index} of {count}",
+  "lightbox.close": "Close",
+  "lightbox.previous": "Previous screenshot",
+  "lightbox.next": "Next screenshot",
+
+  "resume.title": "Résumé",
+  "resume.print": "Print",
+  "resume.downloadPdf": "Download PDF",
+  "resume.json": "JSON Resume",
+  "resume.summary": "Summary",
+
+  "notFound.title": "Page not found",
+  "notFound.body": "That link doesn’t lead anywhere on this site.",
+  "notFound.home": "Back home",
+
+  "offline.title": "You’re offline",
+  "offline.body": "This page hasn’t been saved for offline reading yet. Pages you’ve opened before are still available.",
+  "offline.retry": "Try again",
+  "offline.home": "Home page",
+
+  "head.writingTitle": "Writing — {name}",
+  "head.writingDescription": "Engineering notes and articles by {name}.",
+  "head.resumeTitle": "Résumé — {name}",
+  "head.resumeDescription": "Résumé of {name}: experience, projects and skills.",
+  "head.notFoundTitle": "Page not found — {name}",
+  "head.offlineTitle": "Offline — {name}",
+
+  "og.project": "Project",
+  "og.post": "Writing",
+};
+
+export default en;
@@ -0,0 +1,211 @@
+import type { Messages } from "./index";
+
+/** Spanish UI strings. Keys left out fall back to English and are reported by plugins/i18n.ts. */
+const es: Partial<Messages> = {
+  "header.menu": "Menú",
+  "locale.label": "Idioma",
+
+  "theme.settings": "Ajustes del tema",
+  "theme.mode": "Modo",
+  "theme.mode.light": "Claro",
+  "theme.mode.dark": "Oscuro",
+  "theme.mode.system": "Sistema",
+  "theme.accent": "Acento",
+  "theme.motion": "Movimiento",
+  "theme.reduceMotion": "Reducir movimiento",
+
+  "palette.open": "Buscar y comandos",
+  "palette.dialog": "Paleta de comandos",
+  "palette.input": "Buscar secciones, proyectos, experiencia, habilidades y acciones",
+  "palette.placeholder": "Busca o salta a…",
+  "palette.close": "cerrar",
+  "palette.results": "Resultados",
+  "palette.noMatches": "Nada coincide con «{query}».",
+  "palette.count.one": "{count} resultado",
+  "palette.count.other": "{count} resultados",
+  "palette.group.sections": "Secciones",
+  "palette.group.projects": "Proyectos",
+  "palette.group.experience": "Experiencia",
+  "palette.group.skills": "Habilidades",
+  "palette.group.writing": "Artículos",
+  "palette.group.actions": "Acciones",
+  "palette.toggleTheme": "Cambiar tema claro/oscuro",
+  "palette.toggleMotion": "Activar o desactivar el movimiento reducido",
+  "palette.copyEmail": "Copiar correo electrónico",
+  "palette.copied": "{email} copiado al portapapeles",
+  "palette.openGithub": "Abrir GitHub",
+  "palette.openLinkedin": "Abrir LinkedIn",
+  "palette.downloadResume": "Descargar currículum",
+  "palette.viewResume": "Ver currículum",
+
+  "hero.viewProjects": "Ver proyectos",
+  "hero.contact": "Contactar",
+
+  "about.title": "Sobre mí",
+
+  "skills.title": "Habilidades",
+  "skills.intro": "Herramientas y tecnologías que uso a diario o estoy aprendiendo. Elige una para ver dónde la he usado.",
+  "skills.category.languages": "Lenguajes y frameworks",
+  "skills.category.data": "Datos",
+  "skills.category.cloud": "Nube",
+  "skills.category.tooling": "Herramientas",
+  "skills.proficiency": "Dominio {level} de 5",
+  "skills.years.one": "{count} año",
+  "skills.years.other": "{count} años",
+  "skills.usageTitle": "Dónde he usado {skill}",
+  "skills.usageEmpty": "Ningún proyecto ni puesto de este sitio la menciona todavía.",
+  "skills.usageProjects": "Proyectos",
+  "skills.usageExperience": "Experiencia",
+
+  "projects.title": "Proyectos",
+  "projects.intro": "Trabajo seleccionado en agentes, automatización y analítica.",
+  "projects.search": "Buscar proyectos",
+  "projects.sort": "Ordenar",
+  "projects.sort.featured": "Destacados",
+  "projects.sort.newest": "Más recientes",
+  "projects.sort.oldest": "Más antiguos",
+  "projects.filterByStack": "Filtrar por tecnología",
+  "projects.showing": "Mostrando {shown} de {total} proyectos",
+  "projects.empty": "Ningún proyecto coincide con estos filtros.",
+  "projects.clearFilters": "Quitar filtros",
+  "projects.imagePlaceholder": "Imagen del proyecto",
+  "projects.code": "Código",
+  "projects.live": "Demo",
+  "projects.caseStudy": "Caso de estudio",
+  "projects.caseStudyLabel": "Caso de estudio: {title}",
+  "projects.recentlyActive": "Activo recientemente",
+  "projects.stars": "estrellas en GitHub",
+  "projects.updated": "Actualizado el {date}",
+  "projects.topics": "Temas de GitHub",
+
+  "project.back": "Todos los proyectos",
+  "project.comingSoon": "Pronto habrá un análisis completo de este proyecto.",
+  "project.screenshots": "Capturas de pantalla",
+  "project.enlarge": "Ver a tamaño completo: {alt}",
+  "project.more": "Más proyectos",
+  "project.previous": "Anterior",
+  "project.next": "Siguiente",
+
+  "experience.title": "Experiencia",
+  "experience.present": "Actualidad",
+  "experience.years.one": "{count} año",
+  "experience.years.other": "{count} años",
+  "experience.months.one": "{count} mes",
+  "experience.months.other": "{count} meses",
+  "experience.gap": "{duration} entre puestos",
+  "experience.showDetails": "Ver detalles",
+  "experience.hideDetails": "Ocultar detalles",
+  "experience.detailsFor": "de {title} en {org}",
+
+  "education.title": "Formación",
+
+  "certifications.title": "Certificaciones",
+  "certifications.issued": "Emitida en {date}",
+  "certifications.expires": "Vence en {date}",
+  "certifications.verify": "Verificar",
+  "certifications.verifyLabel": "Verificar {name}",
+
+  "talks.title": "Charlas y publicaciones",
+  "talks.kind.talk": "Charla",
+  "talks.kind.publication": "Publicación",
+
+  "testimonials.title": "Lo que dicen",
+
+  "writing.title": "Artículos",
+  "writing.intro": "Notas de ingeniería del trabajo y de proyectos personales.",
+  "writing.empty": "Los primeros artículos están en camino.",
+  "writing.all": "Todos los artículos",
+  "writing.pageIntro": "Notas de ingeniería sobre Java, Oracle, agentes de IA y la nube.",
+  "writing.subscribe": "Suscríbete por",
+  "writing.or": "o",
+  "writing.filterByTag": "Filtrar por etiqueta",
+  "writing.allTags": "Todos",
+  "writing.noTagged": "Aún no hay artículos con la etiqueta «{tag}».",
+  "writing.minRead": "{minutes} min de lectura",
+  "writing.draft": "Borrador",
+
+  "contact.title": "Contacto",
+  "contact.intro": "¿Tienes un proyecto o una idea? Hablemos.",
+  "contact.introWithCall": "¿Tienes un proyecto o una idea? Envíame un mensaje o reserva una llamada corta abajo.",
+  "contact.name": "Tu nombre",
+  "contact.email": "Tu correo electrónico",
+  "contact.message": "Mensaje",
+  "contact.messagePlaceholder": "Cuéntame sobre tu proyecto",
+  "contact.send": "Enviar",
+  "contact.sending": "Enviando…",
+  "contact.success": "¡Gracias! Tu mensaje va en camino; te responderé pronto.",
+  "contact.rateLimited": "Demasiados mensajes en poco tiempo. Inténtalo de nuevo en {minutes} min.",
+  "contact.deliveryFailed": "Ahora mismo no se pudo entregar el mensaje. Inténtalo de nuevo o escríbeme directamente.",
+  "contact.failed": "Algo salió mal al enviar tu mensaje. Inténtalo de nuevo.",
+  "contact.offline": "No se pudo conectar con el servidor. Revisa tu conexión e inténtalo de nuevo.",
+  "contact.emailLink": "Correo",
+  "contact.resumeLink": "Currículum",
+  "contact.error.name.required": "Escribe tu nombre.",
+  "contact.error.name.too_long": "El nombre debe tener menos de {max} caracteres.",
+  "contact.error.email.required": "Escribe tu correo electrónico.",
+  "contact.error.email.invalid": "Esa dirección de correo no parece válida.",
+  "contact.error.message.required": "Escribe un mensaje.",
+  "contact.error.message.too_short": "Escribe al menos {min} caracteres.",
+  "contact.error.message.too_long": "El mensaje debe tener menos de {max} caracteres.",
+  "contact.error.slot.unavailable": "Ese horario ya no está disponible. Elige otro, por favor.",
+
+  "meeting.title": "Reserva una charla",
+  "meeting.optional": "opcional",
+  "meeting.loading": "Cargando horarios libres…",
+  "meeting.none": "Ahora no hay horarios libres; envíame un mensaje y buscamos uno.",
+  "meeting.intro": "Elige un hueco de {minutes} minutos para una llamada. Las horas están en tu zona horaria ({zone}); tu mensaje me cuenta de qué se trata.",
+  "meeting.day": "Día para la llamada",
+  "meeting.noCall": "Sin llamada, solo un mensaje",
+  "meeting.times": "Horarios libres el {day}",
+  "meeting.send": "Pedir llamada",
+  "meeting.success": "¡Gracias! Tu solicitud de llamada para el {when} está en camino; te confirmaré por correo cómo unirte.",
+  "meeting.download": "Añadir al calendario (.ics)",
+  "meeting.invite.summary": "Llamada con {name}",
+  "meeting.invite.description": "Solicitada desde el portafolio de {name}. {name} confirmará por correo cómo unirse.",
+
+  "footer.rights": "© {year} {name}. Todos los derechos reservados.",
+  "footer.builtWith": "Hecho con React · Tailwind · Framer Motion",
+
+  "consent.label": "Consentimiento de analítica",
+  "consent.body": "¿Puedo contar visitas y clics anónimos? Sin cookies ni nada que te identifique: solo qué secciones y proyectos despiertan interés.",
+  "consent.allow": "Permitir",
+  "consent.decline": "No, gracias",
+  "consent.preferences": "Preferencias de analítica",
+
+  "update.label": "Actualización del sitio",
+  "update.body": "Hay una nueva versión de este sitio.",
+  "update.reload": "Recargar",
+  "update.dismiss": "Más tarde",
+
+  "lightbox.label": "Captura {index} de {count}",
+  "lightbox.close": "Cerrar",
+  "lightbox.previous": "Captura anterior",
+  "lightbox.next": "Captura siguiente",
+
+  "resume.title": "Currículum",
+  "resume.print": "Imprimir",
+  "resume.downloadPdf": "Descargar PDF",
+  "resume.json": "JSON Resume",
+  "resume.summary": "Resumen",
+
+  "notFound.title": "Página no encontrada",
+  "notFound.body": "Ese enlace no lleva a ninguna parte de este sitio.",
+  "notFound.home": "Volver al inicio",
+
+  "offline.title": "Sin conexión",
+  "offline.body": "Esta página aún no se ha guardado para leerla sin conexión. Las páginas que ya abriste siguen disponibles.",
+  "offline.retry": "Reintentar",
+  "offline.home": "Página de inicio",
+
+  "head.writingTitle": "Artículos — {name}",
+  "head.writingDescription": "Notas de ingeniería y artículos de {name}.",
+  "head.resumeTitle": "Currículum — {name}",
+  "head.resumeDescription": "Currículum de {name}: experiencia, proyectos y habilidades.",
+  "head.notFoundTitle": "Página no encontrada — {name}",
+  "head.offlineTitle": "Sin conexión — {name}",
+
+  "og.project": "Proyecto",
+  "og.post": "Artículo",
+};
+
+export default es;
@@ -0,0 +1,46 @@
+import type { SiteContent } from "../content/schema";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "../lib/locale";
+import en from "./en";
+import es from "./es";
+
+/**
+ * UI message catalogs and lookup. English is complete by definition; other
+ * catalogs may lag behind, in which case the English string is shown and the
+ * gap is reported at build time (plugins/i18n.ts). DOM-free so the server
+ * entry and build plugins can use it too.
+ */
+
+export type Messages = typeof en;
+export type MessageKey = keyof Messages;
+export type MessageVars = Record<string, string | number>;
+
+export const CATALOGS: Record<Locale, Partial<Messages>> = { en, es };
+
+/** Look up `key` for a locale and fill in `{name}` placeholders from `vars`. */
+export function translate(locale: Locale, key: MessageKey, vars?: MessageVars): string {
+  const template = CATALOGS[locale][key] ?? en[key];
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+}
+
+/** Keys each non-default locale has yet to translate. Locales with none are left out. */
+export function missingTranslations(): { locale: Locale; keys: MessageKey[] }[] {
+  const keys = Object.keys(en) as MessageKey[];
+  return LOCALES.filter((l) => l.id !== DEFAULT_LOCALE)
+    .map((l) => ({ locale: l.id, keys: keys.filter((k) => !CATALOGS[l.id][k]) }))
+    .filter((m) => m.keys.length > 0);
+}
+
+type CopyContent = Pick<SiteContent, "profile" | "about" | "nav" | "translations">;
+
+/** Profile, About and nav with a locale's content/i18n overrides applied. */
+export function localizeContent(content: CopyContent, locale: Locale): Pick<SiteContent, "profile" | "about" | "nav"> {
+  const t = content.translations[locale];
+  if (!t) return content;
+  const { seo, ...profile } = t.profile;
+  return {
+    profile: { ...content.profile, ...profile, seo: { ...content.profile.seo, ...seo } },
+    about: t.about ?? content.about,
+    nav: content.nav.map((n) => ({ ...n, label: t.nav[n.id] ?? n.label })),
+  };
+}
@@ -0,0 +1,32 @@
+import type { ContentIssue, ContentKey } from "../content/schema";
+
+/**
+ * Contract between the dev-only /admin editor (src/pages/AdminPage.tsx) and
+ * the dev server endpoint that reads and writes the content files
+ * (plugins/admin.ts). Neither exists in production builds.
+ */
+
+export const ADMIN_ENDPOINT = "/__admin/content";
+
+/** Content files the editor can change, in tab order. */
+export const EDITABLE_FILES = ["projects", "experience", "skills"] as const satisfies readonly ContentKey[];
+
+export type EditableKey = (typeof EDITABLE_FILES)[number];
+
+export interface EditableFile {
+  /** Parsed YAML, exactly as on disk. */
+  data: unknown;
+  /** The file's leading comment block, kept when it is written back. */
+  header: string;
+}
+
+/** GET response. */
+export type AdminContent = Record<EditableKey, EditableFile>;
+
+/** PUT body: only the files that changed. */
+export type AdminSave = Partial<Record<EditableKey, unknown>>;
+
+/** PUT response when a file doesn't validate; nothing is written. */
+export interface AdminSaveRejected {
+  issues: ContentIssue[];
+}
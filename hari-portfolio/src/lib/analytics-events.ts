@@ -0,0 +1,63 @@
+import { isLocale, type Locale } from "./locale";
+
+/**
+ * Analytics events, shared by the tracker (src/lib/analytics.ts) and the
+ * `api/events` collector, which accepts nothing outside this list. Events
+ * carry no identifiers: no user or session id, IP, user agent or free text,
+ * only which part of the site was used. Keep this module free of DOM and
+ * Node APIs.
+ */
+
+export type AnalyticsEvent =
+  | { name: "section_view"; section: string }
+  | { name: "cta_click"; cta: "view_projects" | "contact" }
+  | { name: "project_link"; project: string; link: "code" | "live" }
+  | { name: "theme_change"; setting: "mode" | "palette"; value: string }
+  | { name: "contact_submit"; outcome: "sent" | "invalid" | "rate_limited" | "failed" };
+
+export type EventName = AnalyticsEvent["name"];
+
+/** What the tracker sends: the event plus the page it happened on. */
+export type EventPayload = AnalyticsEvent & {
+  /** Pathname only; query strings and hashes are dropped. */
+  path: string;
+  locale: Locale;
+};
+
+// Section ids, project slugs, theme mode and palette ids.
+const ID = /^[a-z0-9][a-z0-9-]{0,79}$/;
+const PATH = /^\/[\w\-/.]{0,199}$/;
+
+type FieldRule = RegExp | readonly string[];
+
+const FIELDS: { [N in EventName]: Record<Exclude<keyof Extract<AnalyticsEvent, { name: N }>, "name">, FieldRule> } = {
+  section_view: { section: ID },
+  cta_click: { cta: ["view_projects", "contact"] },
+  project_link: { project: ID, link: ["code", "live"] },
+  theme_change: { setting: ["mode", "palette"], value: ID },
+  contact_submit: { outcome: ["sent", "invalid", "rate_limited", "failed"] },
+};
+
+function isEventName(value: unknown): value is EventName {
+  return typeof value === "string" && Object.hasOwn(FIELDS, value);
+}
+
+function matches(rule: FieldRule, value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  return rule instanceof RegExp ? rule.test(value) : rule.includes(value);
+}
+
+/** The payload if `raw` is a well-formed event, with unknown fields dropped; otherwise undefined. */
+export function parseEventPayload(raw: unknown): EventPayload | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const body = raw as Record<string, unknown>;
+  if (!isEventName(body.name) || typeof body.path !== "string" || !PATH.test(body.path) || !isLocale(body.locale)) {
+    return undefined;
+  }
+  const fields: Record<string, string> = {};
+  for (const [key, rule] of Object.entries(FIELDS[body.name] as Record<string, FieldRule>)) {
+    if (!matches(rule, body[key])) return undefined;
+    fields[key] = body[key] as string;
+  }
+  return { name: body.name, ...fields, path: body.path, locale: body.locale } as EventPayload;
+}
@@ -0,0 +1,129 @@
+import { useSyncExternalStore } from "react";
+import type { AnalyticsEvent, EventPayload } from "./analytics-events";
+import { splitLocale } from "./locale";
+
+/**
+ * Privacy-friendly event tracking. Nothing is recorded until the visitor
+ * agrees in the consent banner, and never when the browser sends Do Not Track
+ * or Global Privacy Control. The choice is kept in localStorage; no cookies
+ * are set, and events carry no identifiers (see ./analytics-events.ts).
+ *
+ * Where events go is picked at build time:
+ *
+ *   VITE_ANALYTICS           console | endpoint | off
+ *                            (default: console in dev, endpoint in production)
+ *   VITE_ANALYTICS_ENDPOINT  collector URL (default /api/events; any
+ *                            self-hosted collector accepting the same JSON works)
+ *
+ * `/api/events` (server/analytics) then stores them through its own sink,
+ * e.g. a local JSON Lines file while testing.
+ */
+
+export type { AnalyticsEvent };
+
+export type AnalyticsSinkName = "console" | "endpoint" | "off";
+
+/**
+ * `unavailable`: tracking is off or the browser opted out, so there is nothing to ask.
+ * `unset`: the visitor hasn't answered the banner yet.
+ */
+export type ConsentState = "unavailable" | "unset" | "granted" | "denied";
+
+const CONSENT_KEY = "hs_analytics";
+
+function sinkName(): AnalyticsSinkName {
+  const configured = import.meta.env.VITE_ANALYTICS;
+  if (configured === "console" || configured === "endpoint" || configured === "off") return configured;
+  return import.meta.env.DEV ? "console" : "endpoint";
+}
+
+const SINK = sinkName();
+const ENDPOINT = import.meta.env.VITE_ANALYTICS_ENDPOINT || "/api/events";
+
+const sinks: Record<Exclude<AnalyticsSinkName, "off">, (payload: EventPayload) => void> = {
+  console(payload) {
+    console.info("[analytics]", payload);
+  },
+  endpoint(payload) {
+    // keepalive lets the request finish when a click navigates away; credentials are never sent.
+    void fetch(ENDPOINT, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(payload),
+      keepalive: true,
+      credentials: "omit",
+    }).catch(() => {});
+  },
+};
+
+function optedOut(): boolean {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  return nav.doNotTrack === "1" || nav.globalPrivacyControl === true;
+}
+
+function readConsent(): ConsentState {
+  if (SINK === "off" || optedOut()) return "unavailable";
+  const saved = localStorage.getItem(CONSENT_KEY);
+  return saved === "granted" || saved === "denied" ? saved : "unset";
+}
+
+// ── Consent store ────────────────────────────────────────────────────────────
+
+const listeners = new Set<() => void>();
+let consent: ConsentState | undefined;
+
+function refresh() {
+  const next = readConsent();
+  if (next !== consent) {
+    consent = next;
+    listeners.forEach((l) => l());
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", refresh);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", refresh);
+  };
+}
+
+function getConsent(): ConsentState {
+  if (consent === undefined) consent = readConsent();
+  return consent;
+}
+
+export function setConsent(granted: boolean) {
+  localStorage.setItem(CONSENT_KEY, granted ? "granted" : "denied");
+  refresh();
+}
+
+/** Forget the answer so the banner asks again. */
+export function resetConsent() {
+  localStorage.removeItem(CONSENT_KEY);
+  refresh();
+}
+
+/** Prerendered HTML never shows the banner; it appears after hydration if needed. */
+export function useConsent(): ConsentState {
+  return useSyncExternalStore(subscribe, getConsent, () => "unavailable");
+}
+
+// ── Tracking ─────────────────────────────────────────────────────────────────
+
+const viewedSections = new Set<string>();
+
+export function track(event: AnalyticsEvent) {
+  if (typeof window === "undefined" || getConsent() !== "granted" || SINK === "off") return;
+  const { locale } = splitLocale(window.location.pathname);
+  sinks[SINK]({ ...event, path: window.location.pathname, locale });
+}
+
+/** Count a section once per page load, however often it scrolls back into view. */
+export function trackSectionView(section: string) {
+  const key = `${window.location.pathname}#${section}`;
+  if (getConsent() !== "granted" || viewedSections.has(key)) return;
+  viewedSections.add(key);
+  track({ name: "section_view", section });
+}
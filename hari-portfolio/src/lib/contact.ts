@@ -0,0 +1,61 @@
+/**
+ * Contact form rules, shared by the form (instant inline errors) and the
+ * `api/contact` handler (the authoritative check). Errors are codes rather
+ * than sentences so the form can show them in the visitor's language. Keep
+ * this module free of DOM and Node APIs.
+ */
+
+export const CONTACT_FIELDS = ["name", "email", "message"] as const;
+export type ContactField = (typeof CONTACT_FIELDS)[number];
+
+export type ContactInput = Record<ContactField, string>;
+export interface ContactFieldErrors {
+  name?: "required" | "too_long";
+  email?: "required" | "invalid";
+  message?: "required" | "too_short" | "too_long";
+  /** A requested call slot that isn't on offer; see src/lib/meeting.ts. */
+  slot?: "unavailable";
+}
+
+/** Hidden field real visitors never see; anything typed into it is a bot. */
+export const HONEYPOT_FIELD = "company";
+
+export const LIMITS = {
+  name: { min: 1, max: 100 },
+  email: { max: 254 },
+  message: { min: 10, max: 5000 },
+} as const;
+
+// Deliberately loose: one "@", no spaces, a dot in the domain.
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Response body of POST /api/contact. */
+export type ContactResponse =
+  | { ok: true }
+  | { ok: false; error: "validation"; fields: ContactFieldErrors }
+  | { ok: false; error: "rate_limited"; retryAfter: number }
+  | { ok: false; error: "bad_request" | "delivery_failed" };
+
+export function validateContact(raw: Partial<Record<string, unknown>>): {
+  values: ContactInput;
+  errors: ContactFieldErrors;
+} {
+  const values = {
+    name: typeof raw.name === "string" ? raw.name.trim() : "",
+    email: typeof raw.email === "string" ? raw.email.trim() : "",
+    message: typeof raw.message === "string" ? raw.message.trim() : "",
+  };
+  const errors: ContactFieldErrors = {};
+
+  if (!values.name) errors.name = "required";
+  else if (values.name.length > LIMITS.name.max) errors.name = "too_long";
+
+  if (!values.email) errors.email = "required";
+  else if (values.email.length > LIMITS.email.max || !EMAIL.test(values.email)) errors.email = "invalid";
+
+  if (!values.message) errors.message = "required";
+  else if (values.message.length < LIMITS.message.min) errors.message = "too_short";
+  else if (values.message.length > LIMITS.message.max) errors.message = "too_long";
+
+  return { values, errors };
+}
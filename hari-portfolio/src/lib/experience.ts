@@ -0,0 +1,107 @@
+import { useSyncExternalStore } from "react";
+import type { ExperienceEntry, ExperienceRole } from "../content/schema";
+
+/**
+ * Timeline arithmetic for content/experience.yaml. Dates may be a year, a
+ * month or a day; a bare year counts from January when it starts a role and
+ * through December when it ends one, and durations are whole months counting
+ * both the first and last. A role with no `end` runs to the current month.
+ */
+
+/** A role together with the organization it was held at. */
+export type OrgRole = ExperienceRole & { org: string };
+
+export type TimelineItem = { kind: "org"; entry: ExperienceEntry } | { kind: "gap"; months: number };
+
+// Shorter breaks between organizations (notice periods, a move) aren't marked.
+const GAP_MONTHS = 3;
+
+/** Months since year 0 of a partial ISO date, e.g. "2025-03" → 24302. */
+function monthIndex(date: string, end: boolean): number {
+  const [year, month] = date.split("-").map(Number);
+  return year * 12 + (month ?? (end ? 12 : 1)) - 1;
+}
+
+function thisMonth(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function startOf(role: ExperienceRole): number {
+  return monthIndex(role.start, false);
+}
+
+function endOf(role: ExperienceRole, now: string): number {
+  return monthIndex(role.end ?? now, true);
+}
+
+/** The role's dates as a period string for `formatPeriod`, e.g. "2023-04 — Present". */
+export function rolePeriod(role: ExperienceRole): string {
+  return `${role.start} — ${role.end ?? "Present"}`;
+}
+
+/** Months in the role, counting the first and last. `now` is a YYYY-MM month. */
+export function roleMonths(role: ExperienceRole, now: string): number {
+  return Math.max(1, endOf(role, now) - startOf(role) + 1);
+}
+
+/** Months spent at an organization, with overlapping roles counted once. */
+export function tenureMonths(entry: ExperienceEntry, now: string): number {
+  const spans = entry.roles.map((r) => [startOf(r), endOf(r, now)]).sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let covered = -Infinity;
+  for (const [start, end] of spans) {
+    if (end > covered) total += end - Math.max(start, covered + 1) + 1;
+    covered = Math.max(covered, end);
+  }
+  return Math.max(1, total);
+}
+
+/** Split a month count for display as "1 yr 3 mos". */
+export function durationParts(months: number): { years: number; months: number } {
+  return { years: Math.floor(months / 12), months: months % 12 };
+}
+
+// Current roles first, then latest end, then latest start.
+function newestFirst(a: ExperienceRole, b: ExperienceRole): number {
+  if (!a.end !== !b.end) return a.end ? 1 : -1;
+  const ends = a.end && b.end ? monthIndex(b.end, true) - monthIndex(a.end, true) : 0;
+  return ends || startOf(b) - startOf(a);
+}
+
+/** Organizations and their roles, newest first, whatever order the file lists them in. */
+export function sortExperience(entries: ExperienceEntry[]): ExperienceEntry[] {
+  return entries
+    .map((e) => ({ ...e, roles: [...e.roles].sort(newestFirst) }))
+    .filter((e) => e.roles.length > 0)
+    .sort((a, b) => newestFirst(a.roles[0], b.roles[0]));
+}
+
+/** Every role across organizations with its org, newest first. */
+export function allRoles(entries: ExperienceEntry[]): OrgRole[] {
+  return entries.flatMap((e) => e.roles.map((r) => ({ ...r, org: e.org }))).sort(newestFirst);
+}
+
+/** Sorted organizations with a gap item wherever nothing on the timeline covers `GAP_MONTHS` or more. */
+export function experienceTimeline(entries: ExperienceEntry[], now: string): TimelineItem[] {
+  const items: TimelineItem[] = [];
+  let earliest = Infinity;
+  for (const entry of sortExperience(entries)) {
+    const latest = Math.max(...entry.roles.map((r) => endOf(r, now)));
+    const months = earliest - latest - 1;
+    if (Number.isFinite(months) && months >= GAP_MONTHS) items.push({ kind: "gap", months });
+    items.push({ kind: "org", entry });
+    earliest = Math.min(earliest, ...entry.roles.map(startOf));
+  }
+  return items;
+}
+
+// The month only changes across a visit at midnight on the 1st; nothing to subscribe to.
+const noSubscription = () => () => {};
+
+/**
+ * The current month (YYYY-MM) for "Present" durations. Prerendered HTML uses
+ * the build's month and the browser moves it on to today after hydration.
+ */
+export function useCurrentMonth(builtOn: string): string {
+  return useSyncExternalStore(noSubscription, () => thisMonth(), () => builtOn.slice(0, 7));
+}
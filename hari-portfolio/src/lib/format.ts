@@ -0,0 +1,35 @@
+/** Format an ISO calendar date (YYYY-MM-DD) for display, e.g. "Mar 2, 2025"; a bare month (YYYY-MM) gives "Mar 2025". */
+export function formatDate(iso: string, locale = "en-US"): string {
+  const monthOnly = /^\d{4}-\d{2}$/.test(iso);
+  return new Date(`${monthOnly ? `${iso}-01` : iso}T00:00:00Z`).toLocaleDateString(locale, {
+    year: "numeric",
+    month: "short",
+    ...(!monthOnly && { day: "numeric" }),
+    timeZone: "UTC",
+  });
+}
+
+const PERIOD_DATE = /^(\d{4})(?:-(\d{2})(?:-\d{2})?)?$/;
+
+/**
+ * Format an experience period such as "2023-04 — Present" for a locale:
+ * "YYYY", "YYYY-MM" and "YYYY-MM-DD" ends become localized dates (a day is
+ * shown to the month), "Present" becomes `presentLabel`. Anything else is
+ * shown as written.
+ */
+export function formatPeriod(period: string, locale = "en-US", presentLabel = "Present"): string {
+  return period
+    .split(/\s+[—–-]\s+/)
+    .map((part) => {
+      if (part.toLowerCase() === "present") return presentLabel;
+      const match = PERIOD_DATE.exec(part);
+      if (!match) return part;
+      const [, year, month] = match;
+      return new Date(Date.UTC(Number(year), month ? Number(month) - 1 : 0)).toLocaleDateString(locale, {
+        year: "numeric",
+        ...(month && { month: "short" }),
+        timeZone: "UTC",
+      });
+    })
+    .join(" — ");
+}
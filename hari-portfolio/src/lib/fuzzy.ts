@@ -0,0 +1,38 @@
+/**
+ * Small fuzzy matcher for the command palette. Every query character must
+ * appear in order in the text; contiguous runs, word starts and plain
+ * substring hits score higher. Returns null when the text doesn't match.
+ */
+
+const WORD_BREAK = /[\s\-_/:.·—]/;
+
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, " ").trim();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = t.includes(q) ? q.length * 2 : 0;
+  let from = 0;
+  let prev = -2;
+  for (const ch of q.replace(/ /g, "")) {
+    const i = t.indexOf(ch, from);
+    if (i < 0) return null;
+    score += 1;
+    if (i === prev + 1) score += 3;
+    if (i === 0 || WORD_BREAK.test(t[i - 1])) score += 2;
+    prev = i;
+    from = i + 1;
+  }
+  // Among equal matches, prefer shorter text.
+  return score - t.length / 100;
+}
+
+/** Best score of `query` against any of `fields`, or null if none match. */
+export function fuzzyMatch(query: string, fields: string[]): number | null {
+  let best: number | null = null;
+  for (const field of fields) {
+    const score = fuzzyScore(query, field);
+    if (score !== null && (best === null || score > best)) best = score;
+  }
+  return best;
+}
@@ -0,0 +1,225 @@
+import type { SiteContent } from "../content/schema";
+import { localizeContent, translate, type MessageKey } from "../i18n";
+import { allRoles } from "./experience";
+import { LOCALES, intlLocale, localePath, splitLocale, type Locale } from "./locale";
+import { OG_SIZE, ogCardFile, type OgCard } from "./og";
+import { OFFLINE_PATH } from "./pwa";
+
+/**
+ * Per-route <head> metadata: title, description, canonical URL, Open Graph /
+ * Twitter card tags and JSON-LD. The same description feeds the prerendered
+ * HTML (src/entry-server.tsx) and the client-side <Head> component, so what
+ * crawlers see matches what the app sets after navigation. Each page links
+ * its other-language versions with hreflang alternates.
+ */
+
+type HeadContent = Pick<
+  SiteContent,
+  "profile" | "about" | "nav" | "translations" | "projects" | "posts" | "skills" | "experience"
+>;
+
+export interface HeadTag {
+  tag: "meta" | "link" | "script";
+  attrs: Record<string, string>;
+  /** Text content (JSON-LD scripts only). */
+  children?: string;
+}
+
+export interface PageHead {
+  title: string;
+  /** Value for <html lang>. */
+  lang: Locale;
+  tags: HeadTag[];
+}
+
+interface PageInfo {
+  title: string;
+  description: string;
+  ogTitle?: string;
+  /** Social copy, when it differs from the meta description. */
+  ogDescription?: string;
+  type?: "website" | "article";
+  publishedTime?: string;
+  jsonLd?: object;
+  /** Social card for this page; defaults to the locale's home card. */
+  card?: OgCard;
+  noindex?: boolean;
+}
+
+export function siteOrigin(content: Pick<SiteContent, "profile">): string {
+  return content.profile.siteUrl.replace(/\/+$/, "");
+}
+
+export function absoluteUrl(origin: string, pathOrUrl: string): string {
+  if (/^https?:\/\//.test(pathOrUrl)) return pathOrUrl;
+  return `${origin}${pathOrUrl.startsWith("/") ? "" : "/"}${pathOrUrl}`;
+}
+
+/** Organizations with a current role, from experience.yaml; profile.yaml's `organization` takes precedence. */
+function worksFor(content: Pick<SiteContent, "profile" | "experience">): object[] {
+  const { organization } = content.profile;
+  if (organization) return [{ "@type": "Organization", name: organization }];
+  return content.experience
+    .filter((e) => e.roles.some((r) => !r.end))
+    .map((e) => ({ "@type": "Organization", name: e.org, ...(e.url && { url: e.url }) }));
+}
+
+export function personJsonLd(content: Pick<SiteContent, "profile" | "skills" | "experience">): object {
+  const { profile } = content;
+  const origin = siteOrigin(content);
+  const jobTitle = profile.jobTitle ?? allRoles(content.experience).find((r) => !r.end)?.title;
+  const employers = worksFor(content);
+  return {
+    "@context": "https://schema.org",
+    "@type": "Person",
+    name: profile.name,
+    url: `${origin}/`,
+    image: absoluteUrl(origin, profile.heroImage),
+    email: `mailto:${profile.email}`,
+    description: profile.seo.description,
+    ...(jobTitle && { jobTitle }),
+    ...(employers.length > 0 && { worksFor: employers.length === 1 ? employers[0] : employers }),
+    sameAs: [profile.socials.github, profile.socials.linkedin],
+    knowsAbout: content.skills.map((s) => s.label),
+  };
+}
+
+function pageInfo(path: string, locale: Locale, profile: SiteContent["profile"], content: HeadContent): PageInfo {
+  const t = (key: MessageKey) => translate(locale, key, { name: profile.name });
+
+  if (path === "/") {
+    return {
+      title: profile.seo.title,
+      description: profile.seo.description,
+      ogTitle: profile.seo.ogTitle,
+      ogDescription: profile.seo.ogDescription,
+      jsonLd: personJsonLd({ ...content, profile }),
+    };
+  }
+
+  const project = /^\/projects\/([^/]+)$/.exec(path);
+  const p = project && content.projects.find((x) => x.slug === project[1]);
+  if (p) {
+    return {
+      title: `${p.title} — ${profile.name}`,
+      description: p.desc,
+      ogTitle: p.title,
+      type: "article",
+      card: { kind: "project", slug: p.slug, locale },
+    };
+  }
+
+  if (path === "/writing") {
+    return { title: t("head.writingTitle"), description: t("head.writingDescription") };
+  }
+
+  if (path === "/resume") {
+    return { title: t("head.resumeTitle"), description: t("head.resumeDescription") };
+  }
+
+  const post = /^\/writing\/([^/]+)$/.exec(path);
+  const w = post && content.posts.find((x) => x.slug === post[1]);
+  if (w) {
+    return {
+      title: `${w.title} — ${profile.name}`,
+      description: w.excerpt,
+      ogTitle: w.title,
+      type: "article",
+      publishedTime: w.date,
+      card: { kind: "post", slug: w.slug, locale },
+    };
+  }
+
+  if (path === OFFLINE_PATH) {
+    return { title: t("head.offlineTitle"), description: profile.seo.description, noindex: true };
+  }
+
+  return { title: t("head.notFoundTitle"), description: profile.seo.description, noindex: true };
+}
+
+// Open Graph wants "en_US" rather than "en-US".
+const ogLocale = (locale: Locale) => intlLocale(locale).replace("-", "_");
+
+export function pageHead(pathname: string, content: HeadContent): PageHead {
+  const { locale, path: localPath } = splitLocale(pathname);
+  const path = localPath.replace(/\/+$/, "") || "/";
+  const { profile } = localizeContent(content, locale);
+  const info = pageInfo(path, locale, profile, content);
+  const origin = siteOrigin(content);
+  const url = absoluteUrl(origin, localePath(path, locale));
+  const image = absoluteUrl(origin, ogCardFile(info.card ?? { kind: "home", locale }));
+  const alternates: HeadTag[] = info.noindex
+    ? []
+    : [
+        ...LOCALES.map((l) => ({
+          tag: "link" as const,
+          attrs: { rel: "alternate", hreflang: l.id, href: absoluteUrl(origin, localePath(path, l.id)) },
+        })),
+        { tag: "link", attrs: { rel: "alternate", hreflang: "x-default", href: absoluteUrl(origin, path) } },
+      ];
+
+  const meta = (key: "name" | "property", id: string, value: string): HeadTag => ({
+    tag: "meta",
+    attrs: { [key]: id, content: value },
+  });
+
+  const tags: HeadTag[] = [
+    meta("name", "description", info.description),
+    ...(info.noindex ? [meta("name", "robots", "noindex")] : [{ tag: "link" as const, attrs: { rel: "canonical", href: url } }]),
+    ...alternates,
+    meta("property", "og:type", info.type ?? "website"),
+    meta("property", "og:site_name", content.profile.name),
+    meta("property", "og:locale", ogLocale(locale)),
+    ...LOCALES.filter((l) => l.id !== locale).map((l) => meta("property", "og:locale:alternate", ogLocale(l.id))),
+    meta("property", "og:title", info.ogTitle ?? info.title),
+    meta("property", "og:description", info.ogDescription ?? info.description),
+    meta("property", "og:url", url),
+    meta("property", "og:image", image),
+    meta("property", "og:image:type", "image/png"),
+    meta("property", "og:image:width", String(OG_SIZE.width)),
+    meta("property", "og:image:height", String(OG_SIZE.height)),
+    meta("property", "og:image:alt", info.ogTitle ?? info.title),
+    ...(info.publishedTime ? [meta("property", "article:published_time", info.publishedTime)] : []),
+    meta("name", "twitter:card", "summary_large_image"),
+    meta("name", "twitter:title", info.ogTitle ?? info.title),
+    meta("name", "twitter:description", info.ogDescription ?? info.description),
+    meta("name", "twitter:image", image),
+    meta("name", "twitter:image:alt", info.ogTitle ?? info.title),
+  ];
+  if (info.jsonLd) {
+    tags.push({ tag: "script", attrs: { type: "application/ld+json" }, children: JSON.stringify(info.jsonLd) });
+  }
+  return { title: info.title, lang: locale, tags };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Serialize for the prerendered HTML. `data-head` lets the client replace these tags on navigation. */
+export function renderHead(head: PageHead): string {
+  const tags = head.tags.map(({ tag, attrs, children }) => {
+    const attributes = Object.entries(attrs)
+      .map(([k, v]) => ` ${k}="${escapeHtml(v)}"`)
+      .join("");
+    // "<" can't appear in JSON-LD text without risking an early </script>.
+    if (tag === "script") return `<script data-head${attributes}>${(children ?? "").replace(/</g, "\\u003c")}</script>`;
+    return `<${tag} data-head${attributes} />`;
+  });
+  return [`<title>${escapeHtml(head.title)}</title>`, ...tags].join("\n    ");
+}
+
+/** Every path with its own page, in every locale, for prerendering and the sitemap. */
+export function prerenderRoutes(content: Pick<SiteContent, "projects" | "posts">): string[] {
+  const paths = [
+    "/",
+    ...content.projects.map((p) => `/projects/${p.slug}`),
+    "/writing",
+    ...content.posts.map((p) => `/writing/${p.slug}`),
+    "/resume",
+  ];
+  return LOCALES.flatMap((l) => paths.map((p) => localePath(p, l.id)));
+}
+
+/** The offline fallback in every locale; prerendered and precached, but left out of the sitemap. */
+export const offlineRoutes = LOCALES.map((l) => localePath(OFFLINE_PATH, l.id));
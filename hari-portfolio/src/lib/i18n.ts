@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import { useLocation } from "react-router";
+import * as content from "virtual:content";
+import { localizeContent, translate, type MessageKey, type MessageVars } from "../i18n";
+import { durationParts } from "./experience";
+import { formatDate, formatPeriod } from "./format";
+import { intlLocale, localePath, splitLocale } from "./locale";
+
+/**
+ * The current locale (taken from the URL prefix) with helpers bound to it:
+ * `t` for UI strings, `path` to build links that stay in the locale, date
+ * and duration formatters, and the profile/About/nav copy for that locale.
+ */
+export function useI18n() {
+  const { pathname } = useLocation();
+  const { locale } = splitLocale(pathname);
+
+  return useMemo(() => {
+    const intl = intlLocale(locale);
+    const t = (key: MessageKey, vars?: MessageVars) => translate(locale, key, vars);
+    return {
+      locale,
+      t,
+      path: (p: string) => localePath(p, locale),
+      formatDate: (iso: string) => formatDate(iso, intl),
+      formatPeriod: (period: string) => formatPeriod(period, intl, t("experience.present")),
+      formatDuration: (months: number) => {
+        const parts = durationParts(months);
+        return [
+          parts.years > 0 && t(parts.years === 1 ? "experience.years.one" : "experience.years.other", { count: parts.years }),
+          parts.months > 0 && t(parts.months === 1 ? "experience.months.one" : "experience.months.other", { count: parts.months }),
+        ]
+          .filter(Boolean)
+          .join(" ");
+      },
+      ...localizeContent(content, locale),
+    };
+  }, [locale]);
+}
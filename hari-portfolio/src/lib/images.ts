@@ -0,0 +1,48 @@
+/**
+ * Responsive image metadata, generated by plugins/images.ts for every image
+ * under public/ and shipped as the `virtual:images` module. <Picture> looks
+ * images up by their public path ("/hero.jpg") to render AVIF/WebP `srcset`s,
+ * intrinsic dimensions and a blur-up placeholder.
+ *
+ * Shared by the plugin (Node) and the app, so it stays free of DOM and Node APIs.
+ */
+
+/** Variant widths in pixels; each image also gets one at its own width, up to the largest. */
+export const IMAGE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+/** Most compact first: browsers use the first <source> type they support. */
+export const IMAGE_FORMATS = ["avif", "webp"] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+/** Output directory for variants, in dist/ and on the dev server. */
+export const IMAGE_DIR = "img";
+
+export interface ImageSource {
+  type: `image/${ImageFormat}`;
+  srcSet: string;
+}
+
+export interface ImageInfo {
+  /** Intrinsic size of the original, after EXIF rotation. */
+  width: number;
+  height: number;
+  /** Tiny blurred preview as a data URL; raster images only. */
+  placeholder?: string;
+  /** Empty for vector images, which scale on their own. */
+  sources: ImageSource[];
+}
+
+/** Keyed by public path. */
+export type ImageManifest = Record<string, ImageInfo>;
+
+export function variantWidths(width: number): number[] {
+  const largest = Math.min(width, IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1]);
+  return [...IMAGE_WIDTHS.filter((w) => w < largest), largest];
+}
+
+/** "/projects/x/shot.png" → "/img/projects/x/shot-640.1a2b3c4d.avif" */
+export function variantUrl(src: string, hash: string, width: number, format: ImageFormat): string {
+  const base = src.replace(/\.[^./]+$/, "");
+  return `/${IMAGE_DIR}${base}-${width}.${hash}.${format}`;
+}
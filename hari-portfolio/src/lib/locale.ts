@@ -0,0 +1,55 @@
+/**
+ * Supported locales and locale-prefixed URLs. The default locale lives at the
+ * site root ("/projects/x"); every other locale gets a path prefix
+ * ("/es/projects/x"). Kept free of DOM and React imports so the Vite plugins,
+ * the prerender step and the inline boot script can share it.
+ */
+
+export const LOCALES = [
+  { id: "en", label: "English", intl: "en-US" },
+  { id: "es", label: "Español", intl: "es-ES" },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]["id"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** localStorage key for a locale the visitor picked in the switcher. */
+export const LOCALE_KEY = "hs_locale";
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((l) => l.id === value);
+}
+
+/** BCP 47 tag for Intl formatting. */
+export function intlLocale(locale: Locale): string {
+  return LOCALES.find((l) => l.id === locale)?.intl ?? "en-US";
+}
+
+/** Split "/es/projects/x" into { locale: "es", path: "/projects/x" }. */
+export function splitLocale(pathname: string): { locale: Locale; path: string } {
+  const match = /^\/([a-z]{2})(?=\/|$)(.*)$/.exec(pathname);
+  if (match && isLocale(match[1]) && match[1] !== DEFAULT_LOCALE) {
+    return { locale: match[1], path: match[2] || "/" };
+  }
+  return { locale: DEFAULT_LOCALE, path: pathname || "/" };
+}
+
+/** Prefix an app path ("/", "/#skills", "/writing?tag=x") for a locale. */
+export function localePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  // "/" + "#skills" → "/es#skills"; "/writing" → "/es/writing"
+  return `/${locale}${path.startsWith("/") && /^\/(?=[#?]|$)/.test(path) ? path.slice(1) : path}`;
+}
+
+/**
+ * Inline <head> script (injected by plugins/i18n.ts). On an unprefixed URL it
+ * sends the visitor to their language before anything renders: the locale
+ * they picked last time, or else the first supported one in the browser's
+ * language list (navigator.languages mirrors its Accept-Language header).
+ * Prefixed URLs are always honoured, so shared links open as sent.
+ */
+export function localeBootScript(): string {
+  const ids = JSON.stringify(LOCALES.map((l) => l.id));
+  return `(function(){try{var ids=${ids},d=${JSON.stringify(DEFAULT_LOCALE)},p=location.pathname,m=/^\\/([a-z]{2})(?=\\/|$)/.exec(p);if(m&&m[1]!==d&&ids.indexOf(m[1])>=0)return;var s=localStorage.getItem(${JSON.stringify(LOCALE_KEY)}),l=ids.indexOf(s)>=0?s:null;if(!l){var n=navigator.languages&&navigator.languages.length?navigator.languages:[navigator.language||""];for(var i=0;i<n.length&&!l;i++){var c=String(n[i]).slice(0,2).toLowerCase();if(ids.indexOf(c)>=0)l=c}}if(l&&l!==d)location.replace("/"+l+(p==="/"?"":p)+location.search+location.hash)}catch(e){}})();`;
+}
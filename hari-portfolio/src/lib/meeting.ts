@@ -0,0 +1,251 @@
+import { WEEKDAYS, isTimeZone, type Availability } from "../content/schema";
+
+/**
+ * Call requests: the slots offered from content/availability.yaml and the
+ * .ics invite for a requested one. Windows are wall-clock times in the
+ * owner's time zone; slots are UTC instants, which the form shows in the
+ * visitor's zone and `api/contact` checks again before accepting a request.
+ * Time zones are handled with Intl alone. Shared by the form and the
+ * handler, so keep this module free of DOM and Node APIs.
+ */
+
+export interface MeetingSlot {
+  /** ISO timestamps (UTC). */
+  start: string;
+  end: string;
+}
+
+/** A requested call as delivered with the contact message. */
+export interface MeetingRequest extends MeetingSlot {
+  /** The visitor's IANA time zone, when the browser reported a valid one. */
+  timeZone?: string;
+}
+
+/** Form fields carrying the chosen slot start and the visitor's time zone. */
+export const SLOT_FIELD = "slot";
+export const TIME_ZONE_FIELD = "timeZone";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const partsFormats = new Map<string, Intl.DateTimeFormat>();
+
+type DateParts = Record<"year" | "month" | "day" | "hour" | "minute" | "second", number>;
+
+/** Calendar fields of `instant` in `timeZone` (the runtime's own zone when undefined). */
+function zonedParts(instant: number, timeZone?: string): DateParts {
+  const key = timeZone ?? "";
+  let format = partsFormats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    partsFormats.set(key, format);
+  }
+  return Object.fromEntries(format.formatToParts(instant).map((p) => [p.type, Number(p.value)])) as DateParts;
+}
+
+/** How far `timeZone` is ahead of UTC at `instant`, in milliseconds. */
+function zoneOffset(instant: number, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time (YYYY-MM-DD, HH:MM) happens in `timeZone`, or
+ * undefined when it doesn't exist there (skipped by a daylight-saving change).
+ */
+export function zonedInstant(date: string, time: string, timeZone: string): number | undefined {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  // The offset at the first guess can be on the other side of a change; the second is right.
+  const instant = wall - zoneOffset(wall - zoneOffset(wall, timeZone), timeZone);
+  return instant + zoneOffset(instant, timeZone) === wall ? instant : undefined;
+}
+
+/** The calendar date (YYYY-MM-DD) of `instant` in `timeZone`, by default the runtime's own. */
+export function zonedDate(instant: number, timeZone?: string): string {
+  const p = zonedParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY).toISOString().slice(0, 10);
+}
+
+function minutesOf(time: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  return hour * 60 + minute;
+}
+
+function clock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Every slot open for requests at `now`, earliest first: each window is cut
+ * into `slotMinutes` pieces on its days over the next `daysAhead` days,
+ * leaving out blackout dates and anything sooner than `noticeHours`. Nothing
+ * is booked here, so a slot stays on offer after someone requests it.
+ */
+export function meetingSlots(availability: Availability, now: Date): MeetingSlot[] {
+  const { timeZone, slotMinutes, noticeHours, daysAhead, weekly, blackout } = availability;
+  const earliest = now.getTime() + noticeHours * 60 * MINUTE;
+  const today = zonedDate(now.getTime(), timeZone);
+  const starts = new Set<number>();
+
+  for (let i = 0; i <= daysAhead; i++) {
+    const date = addDays(today, i);
+    if (blackout.some((b) => date >= b.from && date <= b.to)) continue;
+    const weekday = WEEKDAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7];
+    for (const window of weekly.filter((w) => w.days.includes(weekday))) {
+      for (let m = minutesOf(window.start); m + slotMinutes <= minutesOf(window.end); m += slotMinutes) {
+        const start = zonedInstant(date, clock(m), timeZone);
+        if (start !== undefined && start >= earliest) starts.add(start);
+      }
+    }
+  }
+  return [...starts]
+    .sort((a, b) => a - b)
+    .map((start) => ({ start: new Date(start).toISOString(), end: new Date(start + slotMinutes * MINUTE).toISOString() }));
+}
+
+/** The offered slot starting at `start` (any ISO timestamp), or undefined if there is none. */
+export function findSlot(availability: Availability, start: string, now: Date): MeetingSlot | undefined {
+  const instant = Date.parse(start);
+  return meetingSlots(availability, now).find((slot) => Date.parse(slot.start) === instant);
+}
+
+/**
+ * The call requested by a submitted form, if any. `error` is set when a slot
+ * was sent but isn't on offer (taken out of the window by time passing, or
+ * the profile takes no calls).
+ */
+export function readMeetingRequest(
+  raw: Partial<Record<string, unknown>>,
+  availability: Availability | undefined,
+  now: Date,
+): { meeting?: MeetingRequest; error?: "unavailable" } {
+  const start = raw[SLOT_FIELD];
+  if (typeof start !== "string" || !start.trim()) return {};
+  const slot = availability && findSlot(availability, start.trim(), now);
+  if (!slot) return { error: "unavailable" };
+  const zone = raw[TIME_ZONE_FIELD];
+  const timeZone = typeof zone === "string" && zone.length <= 64 && isTimeZone(zone) ? zone : undefined;
+  return { meeting: { ...slot, ...(timeZone && { timeZone }) } };
+}
+
+/** A slot's day in the visitor's zone, e.g. "Tuesday, October 20". */
+export function formatSlotDay(iso: string, locale: string): string {
+  return new Date(iso).toLocaleDateString(locale, { weekday: "long", month: "long", day: "numeric" });
+}
+
+/** A slot's start time in the visitor's zone, e.g. "3:30 PM". */
+export function formatSlotTime(iso: string, locale: string): string {
+  return new Date(iso).toLocaleTimeString(locale, { hour: "numeric", minute: "2-digit" });
+}
+
+/** Day, time and zone together, for confirming a request. */
+export function formatSlot(iso: string, locale: string): string {
+  return new Date(iso).toLocaleString(locale, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+// ── .ics invites ─────────────────────────────────────────────────────────────
+
+export interface Invitee {
+  name?: string;
+  email: string;
+}
+
+export interface MeetingInvite {
+  slot: MeetingSlot;
+  summary: string;
+  description: string;
+  organizer: Invitee;
+  attendee: Invitee;
+  url?: string;
+}
+
+/** "2026-10-20T15:00:00.000Z" → "20261020T150000Z". */
+function icsTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function icsPerson(property: string, person: Invitee, params = ""): string {
+  const name = person.name ? `;CN="${person.name.replace(/["\r\n]/g, "")}"` : "";
+  return `${property}${name}${params}:mailto:${person.email}`;
+}
+
+/** Lines are folded at 75 octets, continuing with a space (RFC 5545 §3.1). */
+function fold(line: string): string {
+  let out = "";
+  let octets = 0;
+  for (const char of line) {
+    const code = char.codePointAt(0)!;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    if (octets + size > 75) {
+      out += "\r\n ";
+      octets = 1;
+    }
+    out += char;
+    octets += size;
+  }
+  return out;
+}
+
+/**
+ * Stable id for the call: the form's download and the copy mailed to the
+ * owner are the same event, so a calendar holding both keeps one.
+ */
+function meetingUid(slot: MeetingSlot, attendee: Invitee): string {
+  let hash = 5381;
+  for (const char of attendee.email.toLowerCase()) hash = ((hash * 33) ^ char.charCodeAt(0)) >>> 0;
+  return `${icsTime(slot.start)}-${hash.toString(36)}@portfolio-call`;
+}
+
+/**
+ * The call as an iCalendar file. It is marked tentative: the owner confirms
+ * a request by email, with whatever the call happens on.
+ */
+export function icsInvite(invite: MeetingInvite, now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Portfolio//Call request//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${meetingUid(invite.slot, invite.attendee)}`,
+    `DTSTAMP:${icsTime(now.toISOString())}`,
+    `DTSTART:${icsTime(invite.slot.start)}`,
+    `DTEND:${icsTime(invite.slot.end)}`,
+    `SUMMARY:${icsText(invite.summary)}`,
+    `DESCRIPTION:${icsText(invite.description)}`,
+    ...(invite.url ? [`URL:${invite.url}`] : []),
+    "STATUS:TENTATIVE",
+    icsPerson("ORGANIZER", invite.organizer),
+    icsPerson("ATTENDEE", invite.attendee, ";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED"),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,89 @@
+import { useSyncExternalStore } from "react";
+import { MOTION_KEY, REDUCED_MOTION_QUERY } from "./theme-boot";
+
+/**
+ * Reduced-motion preference: the OS `prefers-reduced-motion` setting, unless
+ * the visitor overrides it with the toggle in the theme menu.
+ *
+ * The result is reflected on <html> as `data-motion="reduce"` (set before
+ * first paint by the boot script in ./theme-boot.ts), which src/index.css
+ * uses to stop CSS animations, transitions, scroll reveals and smooth
+ * scrolling. The project grid's Framer Motion animations follow
+ * `useReducedMotion` through a <MotionConfig> (src/sections/Projects.tsx).
+ */
+
+function systemReduced(): boolean {
+  return window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false;
+}
+
+function readReduced(): boolean {
+  const saved = localStorage.getItem(MOTION_KEY);
+  if (saved === "reduce") return true;
+  if (saved === "full") return false;
+  return systemReduced();
+}
+
+function apply(reduced: boolean) {
+  const root = document.documentElement;
+  if (reduced) root.dataset.motion = "reduce";
+  else delete root.dataset.motion;
+}
+
+// ── External store ───────────────────────────────────────────────────────────
+
+const listeners = new Set<() => void>();
+let snapshot: boolean | undefined;
+
+function refresh() {
+  const next = readReduced();
+  if (next !== snapshot) {
+    snapshot = next;
+    apply(next);
+    listeners.forEach((l) => l());
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  const media = window.matchMedia?.(REDUCED_MOTION_QUERY);
+  media?.addEventListener("change", refresh);
+  window.addEventListener("storage", refresh);
+  return () => {
+    listeners.delete(listener);
+    media?.removeEventListener("change", refresh);
+    window.removeEventListener("storage", refresh);
+  };
+}
+
+function getSnapshot(): boolean {
+  if (snapshot === undefined) snapshot = readReduced();
+  return snapshot;
+}
+
+/**
+ * Turn reduced motion on or off. Choosing what the OS already asks for clears
+ * the override, so later OS changes apply again.
+ */
+export function setReducedMotion(reduced: boolean) {
+  if (reduced === systemReduced()) localStorage.removeItem(MOTION_KEY);
+  else localStorage.setItem(MOTION_KEY, reduced ? "reduce" : "full");
+  refresh();
+}
+
+export function toggleReducedMotion() {
+  setReducedMotion(!getSnapshot());
+}
+
+/**
+ * Whether to skip purely decorative motion (the background parallax): the
+ * visitor asked to save data, or the device has few cores or little memory.
+ */
+export function lowPowerDevice(): boolean {
+  const nav = navigator as Navigator & { deviceMemory?: number; connection?: { saveData?: boolean } };
+  return Boolean(nav.connection?.saveData) || (nav.deviceMemory ?? 8) < 4 || (nav.hardwareConcurrency ?? 8) < 4;
+}
+
+/** Whether motion should be reduced; prerendered HTML assumes it shouldn't. */
+export function useReducedMotion(): boolean {
+  return useSyncExternalStore(subscribe, getSnapshot, () => false);
+}
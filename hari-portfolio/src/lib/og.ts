@@ -0,0 +1,30 @@
+import { DEFAULT_LOCALE, type Locale } from "./locale";
+
+/**
+ * Social preview cards (og:image / twitter:image): 1200×630 PNGs rendered at
+ * build time by plugins/og.ts. Every locale gets its own set, with that
+ * locale's headline, labels and dates: a home card plus one per project and
+ * post. Other pages share their locale's home card. Kept free of DOM APIs so
+ * head.ts can use it on the server.
+ */
+
+export const OG_DIR = "og";
+export const OG_SIZE = { width: 1200, height: 630 } as const;
+
+export type OgCard = { locale: Locale } & ({ kind: "home" } | { kind: "project"; slug: string } | { kind: "post"; slug: string });
+
+/**
+ * Path of a card's PNG under the site root, e.g. "og/projects/cloud-lab.png";
+ * other locales' cards are under their id, as in "og/es/projects/cloud-lab.png".
+ */
+export function ogCardFile(card: OgCard): string {
+  const dir = card.locale === DEFAULT_LOCALE ? OG_DIR : `${OG_DIR}/${card.locale}`;
+  switch (card.kind) {
+    case "home":
+      return `${dir}/home.png`;
+    case "project":
+      return `${dir}/projects/${card.slug}.png`;
+    case "post":
+      return `${dir}/writing/${card.slug}.png`;
+  }
+}
@@ -0,0 +1,104 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useSearchParams } from "react-router";
+import type { Project } from "../content/schema";
+
+/**
+ * Filter/search/sort state for the Projects section, kept in the URL query
+ * string (`?stack=AWS&stack=Python&q=agent&sort=newest`) so a filtered view
+ * can be shared as a link.
+ */
+
+export type ProjectSort = "featured" | "newest" | "oldest";
+
+export const PROJECT_SORTS: ProjectSort[] = ["featured", "newest", "oldest"];
+
+export interface ProjectFilters {
+  /** Selected stack tags; a project matches if it uses any of them. */
+  stack: string[];
+  query: string;
+  sort: ProjectSort;
+}
+
+export const NO_FILTERS: ProjectFilters = { stack: [], query: "", sort: "featured" };
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Every distinct `stack` value across projects, alphabetically. */
+export function stackTags(projects: Project[]): string[] {
+  const tags: string[] = [];
+  for (const tag of projects.flatMap((p) => p.stack)) {
+    if (!tags.some((t) => same(t, tag))) tags.push(tag);
+  }
+  return tags.sort((a, b) => a.localeCompare(b, undefined, { sensitivity: "base" }));
+}
+
+export function readFilters(params: URLSearchParams, tags: string[]): ProjectFilters {
+  const sort = params.get("sort");
+  return {
+    // Match case-insensitively so hand-typed links like ?stack=aws still work.
+    stack: tags.filter((t) => params.getAll("stack").some((s) => same(s, t))),
+    query: params.get("q") ?? "",
+    sort: PROJECT_SORTS.includes(sort as ProjectSort) ? (sort as ProjectSort) : NO_FILTERS.sort,
+  };
+}
+
+export function writeFilters(filters: ProjectFilters, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  next.delete("stack");
+  next.delete("q");
+  next.delete("sort");
+  filters.stack.forEach((t) => next.append("stack", t));
+  if (filters.query.trim()) next.set("q", filters.query);
+  if (filters.sort !== NO_FILTERS.sort) next.set("sort", filters.sort);
+  return next;
+}
+
+export function isFiltered(filters: ProjectFilters): boolean {
+  return filters.stack.length > 0 || filters.query.trim() !== "";
+}
+
+// Undated projects sort after dated ones in either direction.
+function byDate(direction: 1 | -1) {
+  return (a: Project, b: Project) => {
+    if (!a.date || !b.date) return a.date ? -1 : b.date ? 1 : 0;
+    return a.date.localeCompare(b.date) * direction;
+  };
+}
+
+export function applyFilters(projects: Project[], filters: ProjectFilters): Project[] {
+  const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = projects.filter((p) => {
+    if (filters.stack.length && !p.stack.some((t) => filters.stack.some((s) => same(s, t)))) return false;
+    const haystack = `${p.title} ${p.desc}`.toLowerCase();
+    return words.every((w) => haystack.includes(w));
+  });
+
+  // Array.prototype.sort is stable, so ties keep the order from projects.yaml.
+  if (filters.sort === "newest") return matches.sort(byDate(-1));
+  if (filters.sort === "oldest") return matches.sort(byDate(1));
+  return matches.sort((a, b) => Number(b.featured) - Number(a.featured));
+}
+
+const noopSubscribe = () => () => {};
+
+/**
+ * Filters from the URL, plus a setter that writes them back (replacing the
+ * history entry, so typing in the search box doesn't flood back/forward).
+ * Prerendered HTML is built without a query string, so the URL is only read
+ * once hydration is done; reading it earlier would make the markup mismatch.
+ */
+export function useProjectFilters(tags: string[]): [ProjectFilters, (next: ProjectFilters) => void] {
+  const [params, setParams] = useSearchParams();
+  const hydrated = useSyncExternalStore(
+    noopSubscribe,
+    () => true,
+    () => false,
+  );
+
+  const filters = useMemo(() => (hydrated ? readFilters(params, tags) : NO_FILTERS), [hydrated, params, tags]);
+  const setFilters = useCallback(
+    (next: ProjectFilters) => setParams((prev) => writeFilters(next, prev), { replace: true, preventScrollReset: true }),
+    [setParams],
+  );
+  return [filters, setFilters];
+}
@@ -0,0 +1,90 @@
+import { useSyncExternalStore } from "react";
+
+/**
+ * Installable app and offline support. plugins/pwa.ts writes the web app
+ * manifest, the icons (rendered from content/logo.svg) and the service worker,
+ * which precaches every prerendered page with the built scripts, styles, fonts
+ * and images. Its cache is named after a hash of the build's output files, so
+ * each deploy gets a fresh cache and the previous one is dropped once the new
+ * worker takes over.
+ *
+ * A new deploy is picked up in the background; the page then offers to reload
+ * (<UpdateToast>) rather than switching versions under the visitor.
+ */
+
+export const SW_FILE = "sw.js";
+export const MANIFEST_FILE = "manifest.webmanifest";
+export const FAVICON_FILE = "favicon.svg";
+export const ICON_DIR = "icons";
+/** Shown for pages that aren't cached yet while the network is down; prerendered for every locale. */
+export const OFFLINE_PATH = "/offline";
+
+// What the page sends the waiting worker to make it take over.
+export const SKIP_WAITING = "skip-waiting";
+
+// ── External store ───────────────────────────────────────────────────────────
+
+const listeners = new Set<() => void>();
+let waiting: ServiceWorker | null = null;
+let updating = false;
+
+function setWaiting(worker: ServiceWorker | null) {
+  waiting = worker;
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** True once a new deploy has been downloaded and is waiting to take over. */
+export function useUpdateAvailable(): boolean {
+  return useSyncExternalStore(subscribe, () => waiting !== null, () => false);
+}
+
+/** Switch to the waiting version; the page reloads when it takes control. */
+export function applyUpdate() {
+  if (!waiting) return;
+  updating = true;
+  waiting.postMessage(SKIP_WAITING);
+}
+
+/** Keep the current version until the next visit. */
+export function dismissUpdate() {
+  setWaiting(null);
+}
+
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+  const sw = navigator.serviceWorker;
+
+  // Only reload for an update the visitor asked for; the first install also
+  // changes the controller, and that needs no reload.
+  sw.addEventListener("controllerchange", () => {
+    if (updating) window.location.reload();
+  });
+
+  window.addEventListener("load", async () => {
+    try {
+      const registration = await sw.register(`/${SW_FILE}`);
+      const watch = (worker: ServiceWorker) =>
+        worker.addEventListener("statechange", () => {
+          if (worker.state === "installed" && sw.controller) setWaiting(worker);
+        });
+      if (registration.waiting && sw.controller) setWaiting(registration.waiting);
+      if (registration.installing) watch(registration.installing);
+      registration.addEventListener("updatefound", () => {
+        if (registration.installing) watch(registration.installing);
+      });
+      // Tabs left open for days look for a new deploy whenever they're shown again.
+      document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "visible") registration.update().catch(() => {});
+      });
+    } catch (err) {
+      console.warn("Service worker registration failed", err);
+    }
+  });
+}
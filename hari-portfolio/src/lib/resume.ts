@@ -0,0 +1,110 @@
+import type { SiteContent } from "../content/schema";
+import { sortExperience } from "./experience";
+import { absoluteUrl, siteOrigin } from "./head";
+import { groupSkills } from "./skills";
+
+/**
+ * The résumé as a JSON Resume document (https://jsonresume.org/schema/),
+ * derived from the site content. The /resume page, resume.json and
+ * resume.pdf (plugins/resume.ts) all render this one object, so the
+ * portfolio and the résumé can't drift apart.
+ */
+
+export const RESUME_JSON_FILE = "resume.json";
+export const RESUME_PDF_FILE = "resume.pdf";
+
+const SCHEMA_URL = "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+export interface JsonResume {
+  $schema: string;
+  basics: {
+    name: string;
+    label: string;
+    image: string;
+    email: string;
+    url: string;
+    summary: string;
+    profiles: { network: string; username: string; url: string }[];
+  };
+  work: {
+    name: string;
+    position: string;
+    url?: string;
+    location?: string;
+    /** ISO 8601 date, possibly partial ("2023", "2023-04"). */
+    startDate: string;
+    /** Left out while the role is ongoing. */
+    endDate?: string;
+    highlights: string[];
+  }[];
+  projects: {
+    name: string;
+    description: string;
+    url: string;
+    keywords: string[];
+    startDate?: string;
+  }[];
+  skills: { name: string; keywords: string[] }[];
+  meta: { canonical: string };
+}
+
+type ResumeContent = Pick<SiteContent, "profile" | "about" | "skills" | "projects" | "experience">;
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": '"', "&#39;": "'" };
+
+/** Rendered Markdown → plain text, one blank line between paragraphs. */
+function htmlToText(html: string): string {
+  return html
+    .split(/<\/p>\s*/)
+    .map((p) =>
+      p
+        .replace(/<[^>]+>/g, "")
+        .replace(/&(amp|lt|gt|quot|#39);/g, (e) => ENTITIES[e])
+        .replace(/\s+/g, " ")
+        .trim(),
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function profileLink(network: string, url: string) {
+  return { network, username: url.replace(/\/+$/, "").split("/").pop() ?? "", url };
+}
+
+export function toJsonResume(content: ResumeContent): JsonResume {
+  const { profile } = content;
+  const origin = siteOrigin(content);
+  return {
+    $schema: SCHEMA_URL,
+    basics: {
+      name: profile.name,
+      label: profile.jobTitle ?? profile.headline,
+      image: absoluteUrl(origin, profile.heroImage),
+      email: profile.email,
+      url: `${origin}/`,
+      summary: htmlToText(content.about.html),
+      profiles: [profileLink("GitHub", profile.socials.github), profileLink("LinkedIn", profile.socials.linkedin)],
+    },
+    // One entry per role, as JSON Resume has no grouping by organization.
+    work: sortExperience(content.experience).flatMap((e) =>
+      e.roles.map((r) => ({
+        name: e.org,
+        position: r.title,
+        ...(e.url && { url: e.url }),
+        ...(e.location && { location: e.location }),
+        startDate: r.start,
+        ...(r.end && { endDate: r.end }),
+        highlights: r.points,
+      })),
+    ),
+    projects: content.projects.map((p) => ({
+      name: p.title,
+      description: p.desc,
+      url: `${origin}/projects/${p.slug}`,
+      keywords: p.stack,
+      ...(p.date && { startDate: p.date }),
+    })),
+    skills: groupSkills(content.skills).map((g) => ({ name: g.label, keywords: g.skills.map((s) => s.label) })),
+    meta: { canonical: `${origin}/${RESUME_JSON_FILE}` },
+  };
+}
@@ -0,0 +1,65 @@
+import { useCallback, useRef, type RefCallback } from "react";
+
+/**
+ * Scroll reveals without an animation library: elements with the `reveal`
+ * class start faded out and slide into place once they enter the viewport,
+ * when one shared IntersectionObserver sets `data-revealed` on them. The
+ * transition itself is CSS (src/index.css), so reduced motion, print and
+ * pages without JavaScript show everything at once. Children with the
+ * `reveal-item` class follow their parent, staggered by `--reveal-index`.
+ *
+ * Prerendered markup is picked up by `revealPrerendered` before hydration,
+ * so sections whose code hasn't loaded yet (see src/sections/lazy.ts)
+ * still appear as they scroll in.
+ */
+
+const REVEALED = "data-revealed";
+
+const callbacks = new WeakMap<Element, () => void>();
+let observer: IntersectionObserver | undefined;
+
+function reveal(el: Element) {
+  el.setAttribute(REVEALED, "");
+  observer?.unobserve(el);
+  callbacks.get(el)?.();
+  callbacks.delete(el);
+}
+
+function shared(): IntersectionObserver {
+  observer ??= new IntersectionObserver(
+    (entries) => entries.forEach((entry) => entry.isIntersecting && reveal(entry.target)),
+    // A little above the bottom edge, so the movement is seen.
+    { rootMargin: "0px 0px -10% 0px" },
+  );
+  return observer;
+}
+
+/** Reveal `el` once it scrolls into view, then call `onReveal`. Returns a function that stops watching it. */
+export function observeReveal(el: Element, onReveal?: () => void): () => void {
+  if (el.hasAttribute(REVEALED) || !("IntersectionObserver" in window)) {
+    el.setAttribute(REVEALED, "");
+    onReveal?.();
+    return () => {};
+  }
+  if (onReveal) callbacks.set(el, onReveal);
+  shared().observe(el);
+  return () => {
+    callbacks.delete(el);
+    observer?.unobserve(el);
+  };
+}
+
+/** Watch the reveals already in the document; call before hydrating prerendered HTML. */
+export function revealPrerendered() {
+  document.querySelectorAll(".reveal").forEach((el) => observeReveal(el));
+}
+
+/**
+ * Ref callback for an element with the `reveal` class. `onReveal` runs once,
+ * when it first comes into view (or right away if it already has).
+ */
+export function useReveal<T extends Element>(onReveal?: () => void): RefCallback<T> {
+  const latest = useRef(onReveal);
+  latest.current = onReveal;
+  return useCallback((el: T | null) => (el ? observeReveal(el, () => latest.current?.()) : undefined), []);
+}
@@ -0,0 +1,170 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { useLocation, useNavigationType } from "react-router";
+
+// Home-page scroll position, saved when the visitor opens a project so the
+// "back" link (or the browser back button) returns them to the same card.
+const HOME_SCROLL_KEY = "hs_home_scroll";
+
+export type HomeLocationState = { restoreScroll?: boolean } | null;
+
+export function rememberHomeScroll() {
+  sessionStorage.setItem(HOME_SCROLL_KEY, String(window.scrollY));
+}
+
+// Height of the fixed site header (h-16). index.css applies the same offset to
+// anchor scrolling via `scroll-padding-top`.
+export const HEADER_HEIGHT = 64;
+
+// Scroll reveals (0.6s, src/lib/reveal.ts) and sections loading above the target, plus a little slack.
+const SETTLE_MS = 800;
+const USER_SCROLL_EVENTS = ["wheel", "touchstart", "keydown", "pointerdown"] as const;
+
+/**
+ * Scroll to `#id` on navigation, since client-side route changes don't do it for us.
+ * Images, fonts and entrance animations above the target can still move it after
+ * the first scroll, so it is re-aligned once the page settles unless the visitor
+ * has started scrolling on their own.
+ */
+export function useHashScroll() {
+  const { hash, key } = useLocation();
+
+  useEffect(() => {
+    if (!hash) return;
+    const id = decodeURIComponent(hash.slice(1));
+    const align = () => document.getElementById(id)?.scrollIntoView();
+    align();
+
+    const timer = window.setTimeout(align, SETTLE_MS);
+    const stop = () => {
+      window.clearTimeout(timer);
+      window.removeEventListener("load", align);
+      USER_SCROLL_EVENTS.forEach((e) => window.removeEventListener(e, stop));
+    };
+    if (document.readyState !== "complete") window.addEventListener("load", align, { once: true });
+    USER_SCROLL_EVENTS.forEach((e) => window.addEventListener(e, stop, { passive: true }));
+    return stop;
+    // `key` re-runs this when a link to the current hash is clicked again.
+  }, [hash, key]);
+}
+
+/**
+ * Scroll-spy: returns the id of the section currently under the header (the
+ * first of `ids`, in order, crossing the top 40% of the viewport; the last one
+ * once the page is scrolled to the bottom), and mirrors it into the URL hash
+ * with history.replaceState so the address bar is shareable without adding
+ * history entries or triggering a scroll. The first id is the top of the page
+ * and clears the hash instead.
+ */
+export function useScrollSpy(ids: string[], enabled = true): string | undefined {
+  const [active, setActive] = useState<string>();
+  // Bumped when a watched section is replaced, e.g. a lazy section's placeholder by the section.
+  const [generation, setGeneration] = useState(0);
+  // Query-string updates (e.g. project filters) replace the URL without the hash.
+  const { search: query } = useLocation();
+  const idList = ids.join(" ");
+
+  useEffect(() => {
+    if (!enabled) return;
+    const sections = idList
+      .split(" ")
+      .map((id) => document.getElementById(id))
+      .filter((el): el is HTMLElement => el !== null);
+    if (!sections.length) return;
+
+    const visible = new Set<string>();
+    const atBottom = () => window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2;
+    const update = () => {
+      const current = atBottom() ? sections[sections.length - 1] : sections.find((s) => visible.has(s.id));
+      if (current) setActive(current.id);
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) visible.add(entry.target.id);
+          else visible.delete(entry.target.id);
+        }
+        update();
+      },
+      { rootMargin: `-${HEADER_HEIGHT}px 0px -60% 0px` },
+    );
+    sections.forEach((s) => observer.observe(s));
+
+    // The last section is often too short to reach the observed band.
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        if (sections.some((s) => !s.isConnected)) setGeneration((g) => g + 1);
+        else update();
+      });
+    };
+    window.addEventListener("scroll", onScroll, { passive: true });
+
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame);
+      setActive(undefined);
+      window.removeEventListener("scroll", onScroll);
+    };
+  }, [idList, enabled, generation]);
+
+  const current = enabled ? active : undefined;
+
+  useEffect(() => {
+    if (!current) return;
+    const top = current === idList.split(" ")[0];
+    const { pathname, search, hash } = window.location;
+    const next = top ? "" : `#${current}`;
+    if (hash === next) return;
+    // Keep the router's entry state so back/forward still work.
+    window.history.replaceState(window.history.state, "", `${pathname}${search}${next}`);
+  }, [current, idList, query]);
+
+  return current;
+}
+
+/**
+ * Call `callback` with the scroll position now and then at most once per
+ * animation frame while the page scrolls. Returns a function that stops it.
+ */
+export function onScrollFrame(callback: (y: number) => void): () => void {
+  let frame = 0;
+  const onScroll = () => {
+    if (frame) return;
+    frame = requestAnimationFrame(() => {
+      frame = 0;
+      callback(window.scrollY);
+    });
+  };
+  callback(window.scrollY);
+  window.addEventListener("scroll", onScroll, { passive: true });
+  return () => {
+    cancelAnimationFrame(frame);
+    window.removeEventListener("scroll", onScroll);
+  };
+}
+
+/** Restore the saved home scroll position when returning from a project page. */
+export function useRestoreHomeScroll() {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  // Only the arrival counts; later scrolling belongs to the visitor.
+  const arrival = useRef({ location, navigationType });
+
+  useLayoutEffect(() => {
+    const { location, navigationType } = arrival.current;
+    if (location.hash) return;
+    const saved = sessionStorage.getItem(HOME_SCROLL_KEY);
+    sessionStorage.removeItem(HOME_SCROLL_KEY);
+    const restore = navigationType === "POP" || (location.state as HomeLocationState)?.restoreScroll;
+    if (restore && saved !== null) window.scrollTo({ top: Number(saved), behavior: "instant" });
+  }, []);
+}
+
+/** Start new pages at the top instead of wherever the previous page was scrolled. */
+export function useScrollToTop(key: string) {
+  useLayoutEffect(() => {
+    window.scrollTo({ top: 0, behavior: "instant" });
+  }, [key]);
+}
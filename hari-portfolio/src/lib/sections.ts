@@ -0,0 +1,7 @@
+import { sections } from "virtual:content";
+import type { SectionId } from "../content/schema";
+
+/** Whether the home page shows a section; content/sections.yaml can hide any of them. */
+export function hasSection(id: SectionId): boolean {
+  return sections.some((s) => s.id === id && !s.hidden);
+}
@@ -0,0 +1,28 @@
+import type { SiteContent } from "../content/schema";
+import { absoluteUrl, prerenderRoutes, siteOrigin } from "./head";
+import { splitLocale } from "./locale";
+
+type SitemapContent = Pick<SiteContent, "profile" | "projects" | "posts">;
+
+export function renderSitemap(content: SitemapContent): string {
+  const origin = siteOrigin(content);
+  const lastmod = new Map(content.posts.map((p) => [`/writing/${p.slug}`, p.date]));
+  const urls = prerenderRoutes(content).map((route) => {
+    const date = lastmod.get(splitLocale(route).path);
+    return `  <url>\n    <loc>${absoluteUrl(origin, route)}</loc>\n${date ? `    <lastmod>${date}</lastmod>\n` : ""}  </url>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join("\n")}
+</urlset>
+`;
+}
+
+export function renderRobots(content: Pick<SiteContent, "profile">): string {
+  return `User-agent: *
+Allow: /
+Disallow: /api/
+
+Sitemap: ${siteOrigin(content)}/sitemap.xml
+`;
+}
@@ -0,0 +1,46 @@
+import {
+  SKILL_CATEGORIES,
+  skillKey,
+  skillNames,
+  type ExperienceEntry,
+  type Project,
+  type Skill,
+  type SkillCategory,
+} from "../content/schema";
+import { allRoles, type OrgRole } from "./experience";
+
+/**
+ * Skill lookups for the Skills section: grouping by category and finding the
+ * projects and roles whose `stack` mentions a skill (by label or alias,
+ * ignoring case and punctuation).
+ */
+
+export interface SkillGroup {
+  category: SkillCategory;
+  label: string;
+  skills: Skill[];
+}
+
+/** Skills grouped in SKILL_CATEGORIES order; empty categories are left out. */
+export function groupSkills(skills: Skill[]): SkillGroup[] {
+  return SKILL_CATEGORIES.map((c) => ({
+    category: c.id,
+    label: c.label,
+    skills: skills.filter((s) => s.category === c.id),
+  })).filter((g) => g.skills.length > 0);
+}
+
+export function usesSkill(skill: Skill, stack: string[]): boolean {
+  const keys = skillNames(skill).map(skillKey);
+  return stack.some((tag) => keys.includes(skillKey(tag)));
+}
+
+export function skillUsage(
+  skill: Skill,
+  content: { projects: Project[]; experience: ExperienceEntry[] },
+): { projects: Project[]; experience: OrgRole[] } {
+  return {
+    projects: content.projects.filter((p) => usesSkill(skill, p.stack)),
+    experience: allRoles(content.experience).filter((r) => usesSkill(skill, r.stack)),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Theme constants and the pre-paint boot script. Kept free of DOM and React
+ * imports so plugins/theme.ts can inline the script into index.html.
+ */
+
+export const PALETTES = [
+  { id: "aurora", label: "Aurora" },
+  { id: "ocean", label: "Ocean" },
+  { id: "forest", label: "Forest" },
+  { id: "sunset", label: "Sunset" },
+  { id: "orchid", label: "Orchid" },
+] as const;
+
+export type PaletteId = (typeof PALETTES)[number]["id"];
+
+/** Used when profile.yaml doesn't choose a palette. */
+export const DEFAULT_PALETTE: PaletteId = "aurora";
+
+export const MODE_KEY = "hs_theme";
+export const PALETTE_KEY = "hs_palette";
+// Boolean flag written by earlier versions of the site; read once as a fallback.
+export const LEGACY_DARK_KEY = "hs_dark";
+export const DARK_QUERY = "(prefers-color-scheme: dark)";
+// "reduce" or "full" when the visitor overrides their OS motion setting; unset follows the OS.
+export const MOTION_KEY = "hs_motion";
+export const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/**
+ * Inline <head> script (injected by plugins/theme.ts) that applies the saved
+ * theme before the first paint, so there is no flash of the wrong theme. It
+ * also sets `data-motion="reduce"` on <html> when motion should be reduced.
+ * `palette` is the profile's, applied until the visitor picks one.
+ */
+export function themeBootScript(palette: PaletteId = DEFAULT_PALETTE): string {
+  const palettes = JSON.stringify(PALETTES.map((p) => p.id));
+  return `(function(){var r=document.documentElement;try{var s=localStorage,m=s.getItem(${JSON.stringify(MODE_KEY)}),p=s.getItem(${JSON.stringify(PALETTE_KEY)}),l=s.getItem(${JSON.stringify(LEGACY_DARK_KEY)});if(m!=="light"&&m!=="dark"&&m!=="system")m=l===null?"system":l==="1"?"dark":"light";var d=m==="dark"||(m==="system"&&(!window.matchMedia||matchMedia(${JSON.stringify(DARK_QUERY)}).matches));r.classList.toggle("dark",d);r.style.colorScheme=d?"dark":"light";r.dataset.palette=${palettes}.indexOf(p)<0?${JSON.stringify(palette)}:p;var v=s.getItem(${JSON.stringify(MOTION_KEY)});if(v==="reduce"||(v!=="full"&&window.matchMedia&&matchMedia(${JSON.stringify(REDUCED_MOTION_QUERY)}).matches))r.dataset.motion="reduce"}catch(e){r.classList.add("dark");r.dataset.palette=${JSON.stringify(palette)}}})();`;
+}
@@ -0,0 +1,129 @@
+import { useSyncExternalStore } from "react";
+import { profile } from "virtual:content";
+import { track } from "./analytics";
+import {
+  DARK_QUERY,
+  LEGACY_DARK_KEY,
+  MODE_KEY,
+  PALETTE_KEY,
+  PALETTES,
+  type PaletteId,
+} from "./theme-boot";
+
+export { PALETTES, type PaletteId };
+
+/**
+ * Theme engine: a light/dark/system mode plus a named accent palette.
+ *
+ * The choice lives in localStorage and is reflected on <html> as the `dark`
+ * class and a `data-palette` attribute; palette colors are CSS variables in
+ * src/index.css, exposed to Tailwind as `accent` / `accent-end`.
+ * `themeBootScript` (./theme-boot.ts) applies the saved choice before first
+ * paint, and `useTheme` keeps React in sync with it (including OS scheme
+ * changes while in "system" mode and edits from other tabs). Until the visitor
+ * picks a palette, the one set in profile.yaml applies.
+ */
+
+export type ThemeMode = "light" | "dark" | "system";
+
+export const THEME_MODES: ThemeMode[] = ["light", "dark", "system"];
+
+export interface ThemeState {
+  mode: ThemeMode;
+  palette: PaletteId;
+  /** Whether dark styles are active, after resolving "system". */
+  dark: boolean;
+}
+
+function isMode(value: unknown): value is ThemeMode {
+  return value === "light" || value === "dark" || value === "system";
+}
+
+function isPalette(value: unknown): value is PaletteId {
+  return PALETTES.some((p) => p.id === value);
+}
+
+function storedMode(): ThemeMode {
+  const saved = localStorage.getItem(MODE_KEY);
+  if (isMode(saved)) return saved;
+  const legacy = localStorage.getItem(LEGACY_DARK_KEY);
+  if (legacy !== null) return legacy === "1" ? "dark" : "light";
+  return "system";
+}
+
+function systemDark(): boolean {
+  return window.matchMedia?.(DARK_QUERY).matches ?? true;
+}
+
+function readState(): ThemeState {
+  const mode = storedMode();
+  const palette = localStorage.getItem(PALETTE_KEY);
+  return {
+    mode,
+    palette: isPalette(palette) ? palette : profile.palette,
+    dark: mode === "dark" || (mode === "system" && systemDark()),
+  };
+}
+
+function apply({ dark, palette }: ThemeState) {
+  const root = document.documentElement;
+  root.classList.toggle("dark", dark);
+  root.dataset.palette = palette;
+  root.style.colorScheme = dark ? "dark" : "light";
+}
+
+// ── External store ───────────────────────────────────────────────────────────
+
+const listeners = new Set<() => void>();
+let snapshot: ThemeState | undefined;
+
+function refresh() {
+  const next = readState();
+  if (!snapshot || next.mode !== snapshot.mode || next.palette !== snapshot.palette || next.dark !== snapshot.dark) {
+    snapshot = next;
+    apply(next);
+    listeners.forEach((l) => l());
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  const media = window.matchMedia?.(DARK_QUERY);
+  media?.addEventListener("change", refresh);
+  window.addEventListener("storage", refresh);
+  return () => {
+    listeners.delete(listener);
+    media?.removeEventListener("change", refresh);
+    window.removeEventListener("storage", refresh);
+  };
+}
+
+function getSnapshot(): ThemeState {
+  if (!snapshot) snapshot = readState();
+  return snapshot;
+}
+
+// Prerendered HTML can't know the visitor's choice; hydrate with defaults, then update.
+const SERVER_SNAPSHOT: ThemeState = { mode: "system", palette: profile.palette, dark: true };
+
+export function setThemeMode(mode: ThemeMode) {
+  localStorage.setItem(MODE_KEY, mode);
+  localStorage.removeItem(LEGACY_DARK_KEY);
+  refresh();
+  track({ name: "theme_change", setting: "mode", value: mode });
+}
+
+export function setPalette(palette: PaletteId) {
+  localStorage.setItem(PALETTE_KEY, palette);
+  refresh();
+  track({ name: "theme_change", setting: "palette", value: palette });
+}
+
+/** Flip between light and dark, leaving "system" for an explicit choice. */
+export function toggleDark() {
+  setThemeMode(getSnapshot().dark ? "light" : "dark");
+}
+
+export function useTheme(): ThemeState {
+  return useSyncExternalStore(subscribe, getSnapshot, () => SERVER_SNAPSHOT);
+}
@@ -0,0 +1,5 @@
+// Generated by plugins/images.ts from the images under /public.
+declare module "virtual:images" {
+  const images: import("./images").ImageManifest;
+  export default images;
+}
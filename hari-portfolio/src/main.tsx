@@ -1,10 +1,26 @@
 import { StrictMode } from 'react'
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/pwa'
+import { revealPrerendered } from './lib/reveal'
 
-createRoot(document.getElementById('root')!).render(
+const container = document.getElementById('root')!
+const app = (
   <StrictMode>
-    <App />
-  </StrictMode>,
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
+  </StrictMode>
 )
+
+// Production pages are prerendered (scripts/prerender.ts); the dev server serves an empty root.
+// Sections waiting for their code to hydrate still reveal as they scroll in.
+if (container.firstElementChild) {
+  revealPrerendered()
+  hydrateRoot(container, app)
+} else createRoot(container).render(app)
+
+// The dev server has no service worker; it would cache modules Vite serves fresh.
+if (import.meta.env.PROD) registerServiceWorker()
@@ -0,0 +1,594 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { ArrowDown, ArrowUp, Download, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { projects as siteProjects } from "virtual:content";
+import { CONTENT_FILES, SKILL_CATEGORIES, SKILL_ICONS, slugify, validateContentFile, type ContentIssue } from "../content/schema";
+import { toContentYaml } from "../content/yaml";
+import { ADMIN_ENDPOINT, EDITABLE_FILES, type AdminContent, type AdminSaveRejected, type EditableKey } from "../lib/admin";
+import { useScrollToTop } from "../lib/scroll";
+import Experience from "../sections/Experience";
+import { ProjectCard } from "../sections/Projects";
+import Skills from "../sections/Skills";
+
+/**
+ * Content editor at /admin, served by `npm run dev` only (the route and this
+ * module are left out of production builds). Projects, experience and skills
+ * load from /content into forms, preview live in the real section components
+ * and are validated with the same rules as the build. "Save" writes the changed
+ * files back through the dev server (plugins/admin.ts); "Download" hands over
+ * the YAML for the open tab instead. A tool for the site owner rather than
+ * visitors, so its labels aren't translated.
+ */
+
+type Entry = Record<string, unknown>;
+
+// Rows carry a stable id so inputs keep their state when entries are reordered.
+interface Row {
+  id: number;
+  value: Entry;
+}
+
+type Draft = Record<EditableKey, Row[]>;
+
+type Status =
+  | { kind: "idle" }
+  | { kind: "saving" }
+  | { kind: "saved" }
+  | { kind: "rejected"; issues: ContentIssue[] }
+  | { kind: "error"; message: string };
+
+const TAB_LABELS: Record<EditableKey, string> = { projects: "Projects", experience: "Experience", skills: "Skills" };
+
+let nextRowId = 0;
+
+function toRows(data: unknown): Row[] {
+  return (Array.isArray(data) ? data : []).map((value) => ({ id: nextRowId++, value: isEntry(value) ? value : {} }));
+}
+
+function toDraft(content: AdminContent): Draft {
+  return { projects: toRows(content.projects.data), experience: toRows(content.experience.data), skills: toRows(content.skills.data) };
+}
+
+const values = (rows: Row[]) => rows.map((r) => r.value);
+
+function isEntry(value: unknown): value is Entry {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const str = (value: unknown) => (value === undefined || value === null ? "" : String(value));
+const strings = (value: unknown) => (Array.isArray(value) ? value.map(str) : []);
+const entry = (value: unknown) => (isEntry(value) ? value : {});
+
+/** `target` with `key` set; empty values remove the key so optional fields stay out of the file. */
+function patch(target: Entry, key: string, value: unknown): Entry {
+  const next = { ...target };
+  if (value === undefined || value === "" || (isEntry(value) && Object.keys(value).length === 0)) delete next[key];
+  else next[key] = value;
+  return next;
+}
+
+function move<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+}
+
+// ── Form controls ────────────────────────────────────────────────────────────
+
+const inputClass =
+  "w-full rounded-xl border border-neutral-300 dark:border-neutral-700 bg-white/70 dark:bg-neutral-900/70 px-3 py-2 text-sm text-neutral-900 dark:text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-accent/50";
+
+const buttonClass =
+  "inline-flex items-center gap-2 rounded-xl border border-neutral-300 dark:border-neutral-700 px-3 py-2 text-sm text-neutral-800 dark:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:pointer-events-none transition";
+
+const iconButtonClass =
+  "rounded-lg p-1.5 text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 hover:text-neutral-900 dark:hover:text-white disabled:opacity-30 disabled:pointer-events-none transition";
+
+function Field({ label, wide, children }: { label: string; wide?: boolean; children: ReactNode }) {
+  return (
+    <label className={`block text-xs font-medium text-neutral-600 dark:text-neutral-400 ${wide ? "sm:col-span-2" : ""}`}>
+      {label}
+      <span className="mt-1 block">{children}</span>
+    </label>
+  );
+}
+
+function TextField({
+  label,
+  value,
+  onChange,
+  placeholder,
+  multiline,
+  wide,
+}: {
+  label: string;
+  value: unknown;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  wide?: boolean;
+}) {
+  return (
+    <Field label={label} wide={wide || multiline}>
+      {multiline ? (
+        <textarea rows={3} value={str(value)} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className={inputClass} />
+      ) : (
+        <input type="text" value={str(value)} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className={inputClass} />
+      )}
+    </Field>
+  );
+}
+
+const splitTags = (text: string) => text.split(",").map((t) => t.trim()).filter(Boolean);
+
+/**
+ * Comma-separated tags. Keeps its own text so a trailing comma survives while
+ * typing, and takes the value again when it changes from outside (a role moved).
+ */
+function TagsField({ label, value, onChange }: { label: string; value: unknown; onChange: (tags: string[]) => void }) {
+  const joined = strings(value).join(", ");
+  const [text, setText] = useState(joined);
+  if (splitTags(text).join(", ") !== joined) setText(joined);
+  return (
+    <Field label={`${label} (comma-separated)`} wide>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(splitTags(e.target.value));
+        }}
+        className={inputClass}
+      />
+    </Field>
+  );
+}
+
+function SelectField({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: unknown;
+  options: readonly { value: string; label: string }[];
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Field label={label}>
+      <select value={str(value)} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    </Field>
+  );
+}
+
+function ItemControls({
+  name,
+  index,
+  count,
+  onMove,
+  onRemove,
+}: {
+  name: string;
+  index: number;
+  count: number;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <span className="flex shrink-0 gap-1">
+      <button type="button" onClick={() => onMove(index - 1)} disabled={index === 0} aria-label={`Move ${name} up`} className={iconButtonClass}>
+        <ArrowUp className="w-4 h-4" aria-hidden />
+      </button>
+      <button
+        type="button"
+        onClick={() => onMove(index + 1)}
+        disabled={index === count - 1}
+        aria-label={`Move ${name} down`}
+        className={iconButtonClass}
+      >
+        <ArrowDown className="w-4 h-4" aria-hidden />
+      </button>
+      <button type="button" onClick={onRemove} aria-label={`Delete ${name}`} className={iconButtonClass}>
+        <Trash2 className="w-4 h-4" aria-hidden />
+      </button>
+    </span>
+  );
+}
+
+/** One fieldset per entry with move/delete controls, plus an "Add" button. */
+function EntryList({
+  rows,
+  onChange,
+  noun,
+  name,
+  blank,
+  children,
+}: {
+  rows: Row[];
+  onChange: (rows: Row[]) => void;
+  noun: string;
+  name: (value: Entry) => string;
+  blank: Entry;
+  children: (value: Entry, update: (value: Entry) => void) => ReactNode;
+}) {
+  return (
+    <div className="space-y-4">
+      {rows.map((row, i) => {
+        const label = name(row.value) || `Untitled ${noun}`;
+        return (
+          <fieldset key={row.id} className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white/50 dark:bg-neutral-900/50">
+            <legend className="float-left max-w-[70%] truncate font-medium text-neutral-900 dark:text-neutral-100">{label}</legend>
+            <div className="flex justify-end">
+              <ItemControls
+                name={label}
+                index={i}
+                count={rows.length}
+                onMove={(to) => onChange(move(rows, i, to))}
+                onRemove={() => onChange(rows.filter((r) => r.id !== row.id))}
+              />
+            </div>
+            <div className="clear-both mt-3 grid gap-3 sm:grid-cols-2">
+              {children(row.value, (value) => onChange(rows.map((r) => (r.id === row.id ? { ...r, value } : r))))}
+            </div>
+          </fieldset>
+        );
+      })}
+      <button type="button" onClick={() => onChange([...rows, { id: nextRowId++, value: blank }])} className={buttonClass}>
+        <Plus className="w-4 h-4" aria-hidden /> Add {noun}
+      </button>
+    </div>
+  );
+}
+
+// ── Per-file forms ───────────────────────────────────────────────────────────
+
+function ProjectFields({ value, update }: { value: Entry; update: (value: Entry) => void }) {
+  const set = (key: string) => (v: unknown) => update(patch(value, key, v));
+  const links = entry(value.links);
+  const cover = entry(value.cover);
+  return (
+    <>
+      <TextField label="Title" value={value.title} onChange={set("title")} />
+      <TextField label="Slug (optional)" value={value.slug} onChange={set("slug")} placeholder={slugify(str(value.title))} />
+      <TextField label="Description" value={value.desc} onChange={set("desc")} multiline />
+      <TagsField label="Stack" value={value.stack} onChange={set("stack")} />
+      <TextField label="Date (YYYY-MM)" value={value.date} onChange={set("date")} />
+      <TextField label="GitHub repo (owner/name)" value={value.repo} onChange={set("repo")} />
+      <TextField label="Code link" value={links.github} onChange={(v) => update(patch(value, "links", patch(links, "github", v)))} />
+      <TextField label="Live link" value={links.live} onChange={(v) => update(patch(value, "links", patch(links, "live", v)))} />
+      <TextField
+        label="Cover image"
+        value={cover.src}
+        onChange={(v) => update(patch(value, "cover", patch(cover, "src", v)))}
+        placeholder="/projects/<slug>/cover.png"
+      />
+      <TextField label="Cover alt text" value={cover.alt} onChange={(v) => update(patch(value, "cover", patch(cover, "alt", v)))} />
+      <label className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+        <input type="checkbox" checked={value.featured === true} onChange={(e) => set("featured")(e.target.checked || undefined)} />
+        Featured
+      </label>
+    </>
+  );
+}
+
+function PointsField({ points, onChange }: { points: string[]; onChange: (points: string[]) => void }) {
+  return (
+    <div className="sm:col-span-2">
+      <p className="text-xs font-medium text-neutral-600 dark:text-neutral-400">Bullet points</p>
+      <ol className="mt-1 space-y-2">
+        {points.map((point, i) => (
+          <li key={i} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={point}
+              onChange={(e) => onChange(points.map((p, j) => (j === i ? e.target.value : p)))}
+              aria-label={`Point ${i + 1}`}
+              className={inputClass}
+            />
+            <ItemControls
+              name={`point ${i + 1}`}
+              index={i}
+              count={points.length}
+              onMove={(to) => onChange(move(points, i, to))}
+              onRemove={() => onChange(points.filter((_, j) => j !== i))}
+            />
+          </li>
+        ))}
+      </ol>
+      <button type="button" onClick={() => onChange([...points, ""])} className={`mt-2 ${buttonClass}`}>
+        <Plus className="w-4 h-4" aria-hidden /> Add point
+      </button>
+    </div>
+  );
+}
+
+function RoleFields({ value, update }: { value: Entry; update: (value: Entry) => void }) {
+  const set = (key: string) => (v: unknown) => update(patch(value, key, v));
+  return (
+    <>
+      <TextField label="Title" value={value.title} onChange={set("title")} wide />
+      <TextField label="Start (YYYY, YYYY-MM or YYYY-MM-DD)" value={value.start} onChange={set("start")} />
+      <TextField label="End (same format)" value={value.end} onChange={set("end")} placeholder="Empty for Present" />
+      <TagsField label="Stack" value={value.stack} onChange={(tags) => set("stack")(tags.length ? tags : undefined)} />
+      <PointsField points={strings(value.points)} onChange={(points) => update({ ...value, points })} />
+    </>
+  );
+}
+
+const BLANK_ROLE: Entry = { title: "", start: "", points: [""] };
+
+function ExperienceFields({ value, update }: { value: Entry; update: (value: Entry) => void }) {
+  const set = (key: string) => (v: unknown) => update(patch(value, key, v));
+  const roles = (Array.isArray(value.roles) ? value.roles : []).map(entry);
+  const setRoles = (next: Entry[]) => update({ ...value, roles: next });
+  return (
+    <>
+      <TextField label="Organization" value={value.org} onChange={set("org")} />
+      <TextField label="Location" value={value.location} onChange={set("location")} />
+      <TextField label="Website" value={value.url} onChange={set("url")} wide />
+      <div className="sm:col-span-2 space-y-3">
+        {roles.map((role, i) => {
+          const label = str(role.title) || "Untitled role";
+          return (
+            <fieldset key={i} className="rounded-xl border border-neutral-200 dark:border-neutral-800 p-3">
+              <legend className="float-left max-w-[70%] truncate text-sm font-medium text-neutral-900 dark:text-neutral-100">{label}</legend>
+              <div className="flex justify-end">
+                <ItemControls
+                  name={label}
+                  index={i}
+                  count={roles.length}
+                  onMove={(to) => setRoles(move(roles, i, to))}
+                  onRemove={() => setRoles(roles.filter((_, j) => j !== i))}
+                />
+              </div>
+              <div className="clear-both mt-3 grid gap-3 sm:grid-cols-2">
+                <RoleFields value={role} update={(next) => setRoles(roles.map((r, j) => (j === i ? next : r)))} />
+              </div>
+            </fieldset>
+          );
+        })}
+        <button type="button" onClick={() => setRoles([...roles, BLANK_ROLE])} className={buttonClass}>
+          <Plus className="w-4 h-4" aria-hidden /> Add role
+        </button>
+      </div>
+    </>
+  );
+}
+
+const CATEGORY_OPTIONS = SKILL_CATEGORIES.map((c) => ({ value: c.id, label: c.label }));
+const PROFICIENCY_OPTIONS = [{ value: "", label: "—" }, ...[1, 2, 3, 4, 5].map((n) => ({ value: String(n), label: String(n) }))];
+const ICON_OPTIONS = [{ value: "", label: "None" }, ...SKILL_ICONS.map((icon) => ({ value: icon, label: icon }))];
+
+function SkillFields({ value, update }: { value: Entry; update: (value: Entry) => void }) {
+  const set = (key: string) => (v: unknown) => update(patch(value, key, v));
+  const number = (key: string) => (v: string) => set(key)(v === "" ? undefined : Number(v));
+  return (
+    <>
+      <TextField label="Label" value={value.label} onChange={set("label")} />
+      <SelectField label="Category" value={value.category} options={CATEGORY_OPTIONS} onChange={set("category")} />
+      <SelectField label="Proficiency (1–5)" value={value.proficiency} options={PROFICIENCY_OPTIONS} onChange={number("proficiency")} />
+      <Field label="Years">
+        <input type="number" min={0} value={str(value.years)} onChange={(e) => number("years")(e.target.value)} className={inputClass} />
+      </Field>
+      <SelectField label="Icon" value={value.icon} options={ICON_OPTIONS} onChange={set("icon")} />
+      <TagsField label="Aliases" value={value.aliases} onChange={(tags) => set("aliases")(tags.length ? tags : undefined)} />
+    </>
+  );
+}
+
+const BLANK: Record<EditableKey, Entry> = {
+  projects: { title: "", desc: "", stack: [], links: { github: "#", live: "#" } },
+  experience: { org: "", roles: [BLANK_ROLE] },
+  skills: { label: "", category: SKILL_CATEGORIES[0].id },
+};
+
+// ── Page ─────────────────────────────────────────────────────────────────────
+
+export default function AdminPage() {
+  const [loaded, setLoaded] = useState<AdminContent>();
+  const [draft, setDraft] = useState<Draft>();
+  const [loadError, setLoadError] = useState<string>();
+  const [tab, setTab] = useState<EditableKey>("projects");
+  const [status, setStatus] = useState<Status>({ kind: "idle" });
+
+  useScrollToTop("admin");
+
+  useEffect(() => {
+    fetch(ADMIN_ENDPOINT)
+      .then((res) => {
+        if (!res.ok) throw new Error(`The dev server answered ${res.status}`);
+        return res.json() as Promise<AdminContent>;
+      })
+      .then((content) => {
+        setLoaded(content);
+        setDraft(toDraft(content));
+      })
+      .catch((err: Error) => setLoadError(err.message));
+  }, []);
+
+  const projects = useMemo(() => validateContentFile("projects", values(draft?.projects ?? [])), [draft?.projects]);
+  const experience = useMemo(() => validateContentFile("experience", values(draft?.experience ?? [])), [draft?.experience]);
+  const skills = useMemo(() => validateContentFile("skills", values(draft?.skills ?? [])), [draft?.skills]);
+  const checked = { projects, experience, skills };
+
+  // Imported GitHub stats aren't part of the file; reuse the site's so cards look as they will.
+  const previewProjects = useMemo(
+    () => projects.value.map((p) => ({ ...p, github: siteProjects.find((s) => s.repo && s.repo === p.repo)?.github })),
+    [projects.value],
+  );
+  const related = useMemo(() => ({ projects: previewProjects, experience: experience.value }), [previewProjects, experience.value]);
+
+  if (loadError) {
+    return (
+      <section className="pt-28 md:pt-32 pb-20 mx-auto max-w-3xl px-4">
+        <h1 className="text-2xl font-semibold text-neutral-900 dark:text-neutral-100">Content editor</h1>
+        <p role="alert" className="mt-3 text-neutral-600 dark:text-neutral-400">
+          Couldn't load the content files ({loadError}). The editor only works under <code>npm run dev</code>.
+        </p>
+      </section>
+    );
+  }
+  if (!loaded || !draft) return null;
+
+  const dirty = EDITABLE_FILES.filter((key) => JSON.stringify(values(draft[key])) !== JSON.stringify(loaded[key].data));
+  const invalid = dirty.filter((key) => checked[key].issues.length > 0);
+  const file = CONTENT_FILES[tab];
+
+  const update = (key: EditableKey) => (rows: Row[]) => {
+    setDraft({ ...draft, [key]: rows });
+    setStatus({ kind: "idle" });
+  };
+
+  const save = async () => {
+    setStatus({ kind: "saving" });
+    try {
+      const res = await fetch(ADMIN_ENDPOINT, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(Object.fromEntries(dirty.map((key) => [key, values(draft[key])]))),
+      });
+      if (res.status === 422) setStatus({ kind: "rejected", issues: ((await res.json()) as AdminSaveRejected).issues });
+      else if (!res.ok) setStatus({ kind: "error", message: (await res.text()) || `The dev server answered ${res.status}` });
+      // The content plugin reloads the page once the files change on disk.
+      else setStatus({ kind: "saved" });
+    } catch (err) {
+      setStatus({ kind: "error", message: (err as Error).message });
+    }
+  };
+
+  const download = () => {
+    const blob = new Blob([toContentYaml(values(draft[tab]), loaded[tab].header)], { type: "text/yaml" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = file;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const revert = () => {
+    setDraft({ ...draft, [tab]: toRows(loaded[tab].data) });
+    setStatus({ kind: "idle" });
+  };
+
+  const issues = checked[tab].issues;
+
+  return (
+    <section className="pt-28 md:pt-32 pb-20">
+      <div className="mx-auto max-w-[100rem] px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="mr-auto text-2xl md:text-3xl font-semibold text-neutral-900 dark:text-neutral-100">Content editor</h1>
+          <button type="button" onClick={revert} disabled={!dirty.includes(tab)} className={buttonClass}>
+            <RotateCcw className="w-4 h-4" aria-hidden /> Revert {file}
+          </button>
+          <button type="button" onClick={download} className={buttonClass}>
+            <Download className="w-4 h-4" aria-hidden /> Download {file}
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            disabled={dirty.length === 0 || invalid.length > 0 || status.kind === "saving"}
+            className="inline-flex items-center gap-2 rounded-xl px-3 py-2 text-sm font-medium text-white bg-gradient-to-br from-accent to-accent-end hover:opacity-95 disabled:opacity-50 disabled:pointer-events-none transition"
+          >
+            <Save className="w-4 h-4" aria-hidden /> Save to content/
+          </button>
+        </div>
+        <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-400">
+          Edits preview live and are checked like a build. Saving writes every changed file to <code>content/</code>.
+        </p>
+        <p role="status" className="mt-2 text-sm text-neutral-700 dark:text-neutral-300">
+          {status.kind === "saving" && "Saving…"}
+          {status.kind === "saved" && "Saved. Reloading with the new content…"}
+          {status.kind === "error" && `Couldn't save: ${status.message}`}
+          {status.kind === "rejected" && "The dev server rejected the changes; see the problems below."}
+          {status.kind === "idle" && (dirty.length ? `Unsaved changes in ${dirty.map((k) => CONTENT_FILES[k]).join(", ")}.` : "No unsaved changes.")}
+        </p>
+
+        <div role="group" aria-label="Content file" className="mt-6 flex flex-wrap gap-2">
+          {EDITABLE_FILES.map((key) => (
+            <button
+              key={key}
+              type="button"
+              aria-pressed={tab === key}
+              onClick={() => setTab(key)}
+              className={`text-sm rounded-full border px-4 py-1.5 transition ${
+                tab === key
+                  ? "border-transparent bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                  : "border-neutral-300 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+              }`}
+            >
+              {TAB_LABELS[key]}
+              {dirty.includes(key) && (
+                <>
+                  <span aria-hidden> •</span>
+                  <span className="sr-only"> (unsaved)</span>
+                </>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {(issues.length > 0 || status.kind === "rejected") && (
+          <div role="alert" className="mt-4 rounded-2xl border border-amber-500/40 bg-amber-500/10 p-4 text-sm text-amber-900 dark:text-amber-200">
+            <ul className="space-y-1">
+              {(status.kind === "rejected" ? status.issues : issues).map((issue, i) => (
+                <li key={i}>
+                  <code>content/{issue.file}</code>: {issue.path} {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-6 grid gap-8 xl:grid-cols-2">
+          <div>
+            {tab === "projects" && (
+              <EntryList rows={draft.projects} onChange={update("projects")} noun="project" name={(v) => str(v.title)} blank={BLANK.projects}>
+                {(value, set) => <ProjectFields value={value} update={set} />}
+              </EntryList>
+            )}
+            {tab === "experience" && (
+              <EntryList
+                rows={draft.experience}
+                onChange={update("experience")}
+                noun="organization"
+                name={(v) => str(v.org)}
+                blank={BLANK.experience}
+              >
+                {(value, set) => <ExperienceFields value={value} update={set} />}
+              </EntryList>
+            )}
+            {tab === "skills" && (
+              <EntryList rows={draft.skills} onChange={update("skills")} noun="skill" name={(v) => str(v.label)} blank={BLANK.skills}>
+                {(value, set) => <SkillFields value={value} update={set} />}
+              </EntryList>
+            )}
+          </div>
+
+          <div
+            aria-label="Preview"
+            role="region"
+            className="rounded-2xl border border-dashed border-neutral-300 dark:border-neutral-700 xl:sticky xl:top-24 xl:max-h-[calc(100vh-7rem)] xl:overflow-auto"
+          >
+            {tab === "projects" && (
+              <div className="grid sm:grid-cols-2 gap-6 p-6">
+                {previewProjects.map((p, i) => (
+                  <ProjectCard key={i} p={p} />
+                ))}
+              </div>
+            )}
+            {tab === "experience" && <Experience entries={experience.value} />}
+            {tab === "skills" && <Skills items={skills.value} related={related} />}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,21 @@
+import { Link } from "react-router";
+import { useI18n } from "../lib/i18n";
+import { ACCENT } from "../theme";
+
+export default function NotFound() {
+  const { t, path } = useI18n();
+  return (
+    <section className="min-h-[60svh] pt-28 md:pt-32 pb-20 grid place-items-center text-center px-4">
+      <div>
+        <h1 className="text-3xl font-semibold text-neutral-900 dark:text-neutral-100">{t("notFound.title")}</h1>
+        <p className="mt-3 text-neutral-600 dark:text-neutral-400">{t("notFound.body")}</p>
+        <Link
+          to={path("/")}
+          className={`mt-6 inline-block rounded-xl px-5 py-2.5 text-sm font-medium text-white bg-gradient-to-br ${ACCENT} shadow-lg shadow-accent/10 hover:opacity-95 transition`}
+        >
+          {t("notFound.home")}
+        </Link>
+      </div>
+    </section>
+  );
+}
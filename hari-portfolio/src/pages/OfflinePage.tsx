@@ -0,0 +1,37 @@
+import { WifiOff } from "lucide-react";
+import { Link } from "react-router";
+import { useI18n } from "../lib/i18n";
+import { ACCENT } from "../theme";
+
+/**
+ * Served by the service worker (src/lib/pwa.ts) in place of a page that isn't
+ * cached while the network is down. "Try again" reloads the address the
+ * visitor asked for, which the worker fetches afresh.
+ */
+export default function OfflinePage() {
+  const { t, path } = useI18n();
+  return (
+    <section className="min-h-[60svh] pt-28 md:pt-32 pb-20 grid place-items-center text-center px-4">
+      <div>
+        <WifiOff className="mx-auto w-8 h-8 text-neutral-400" aria-hidden />
+        <h1 className="mt-4 text-3xl font-semibold text-neutral-900 dark:text-neutral-100">{t("offline.title")}</h1>
+        <p className="mt-3 max-w-md text-neutral-600 dark:text-neutral-400">{t("offline.body")}</p>
+        <div className="mt-6 flex justify-center gap-3">
+          <button
+            type="button"
+            onClick={() => window.location.reload()}
+            className={`rounded-xl px-5 py-2.5 text-sm font-medium text-white bg-gradient-to-br ${ACCENT} shadow-lg shadow-accent/10 hover:opacity-95 transition`}
+          >
+            {t("offline.retry")}
+          </button>
+          <Link
+            to={path("/")}
+            className="rounded-xl border border-neutral-300 dark:border-neutral-700 px-5 py-2.5 text-sm font-medium text-neutral-800 dark:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition"
+          >
+            {t("offline.home")}
+          </Link>
+        </div>
+      </div>
+    </section>
+  );
+}
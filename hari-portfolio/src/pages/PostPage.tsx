@@ -0,0 +1,60 @@
+import { ArrowLeft } from "lucide-react";
+import { Link, useParams } from "react-router";
+import { posts } from "virtual:content";
+import "highlight.js/styles/github-dark.css";
+import { PostMetaLine } from "../components/PostList";
+import { useI18n } from "../lib/i18n";
+import { useScrollToTop } from "../lib/scroll";
+import { ACCENT } from "../theme";
+import NotFound from "./NotFound";
+
+/** A single Writing post (/writing/:slug); code blocks arrive pre-highlighted. */
+export default function PostPage() {
+  const { slug = "" } = useParams();
+  const { t, path } = useI18n();
+  const post = posts.find((p) => p.slug === slug);
+
+  useScrollToTop(slug);
+
+  if (!post) return <NotFound />;
+
+  return (
+    <article className="pt-28 md:pt-32 pb-20 md:pb-28">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8">
+        <Link
+          to={path("/writing")}
+          className="inline-flex items-center gap-1 text-sm text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-white transition"
+        >
+          <ArrowLeft className="w-4 h-4" /> {t("writing.all")}
+        </Link>
+
+        <header className="fade-in-up mt-6">
+          <PostMetaLine post={post} />
+          <h1 className="mt-2 text-3xl md:text-4xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-50">
+            {post.title}
+          </h1>
+          {post.tags.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {post.tags.map((tag) => (
+                <Link
+                  key={tag}
+                  to={path(`/writing?tag=${encodeURIComponent(tag)}`)}
+                  className="text-xs rounded-full border border-neutral-300 dark:border-neutral-700 px-2 py-1 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition"
+                >
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
+        </header>
+
+        <div className={`mt-8 h-px bg-gradient-to-r ${ACCENT} opacity-60`} aria-hidden />
+
+        <div
+          className="fade-in-up mt-8 prose prose-neutral dark:prose-invert max-w-none prose-pre:p-0 prose-pre:bg-transparent"
+          dangerouslySetInnerHTML={{ __html: post.html }}
+        />
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { ArrowLeft, ArrowRight, ExternalLink, Github, Maximize2 } from "lucide-react";
+import { Link, useParams } from "react-router";
+import { projects } from "virtual:content";
+import Lightbox from "../components/Lightbox";
+import Picture from "../components/Picture";
+import { useI18n } from "../lib/i18n";
+import { useScrollToTop, type HomeLocationState } from "../lib/scroll";
+import { ACCENT } from "../theme";
+import NotFound from "./NotFound";
+
+/**
+ * Case study page for a single project (/projects/:slug).
+ * Renders the Markdown write-up from content/projects/<slug>.md when present,
+ * the project's screenshot gallery (opening in a lightbox), and prev/next links
+ * in PROJECTS order.
+ */
+
+const BACK_STATE: HomeLocationState = { restoreScroll: true };
+
+export default function ProjectPage() {
+  const { slug = "" } = useParams();
+  const { t, path } = useI18n();
+  const index = projects.findIndex((p) => p.slug === slug);
+  const project = projects[index];
+  const prev = projects[index - 1];
+  const next = projects[index + 1];
+  const [viewing, setViewing] = useState<number | null>(null);
+
+  useScrollToTop(slug);
+
+  if (!project) return <NotFound />;
+
+  return (
+    <article className="pt-28 md:pt-32 pb-20 md:pb-28">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8">
+        <Link
+          to={path("/")}
+          state={BACK_STATE}
+          className="inline-flex items-center gap-1 text-sm text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-white transition"
+        >
+          <ArrowLeft className="w-4 h-4" /> {t("project.back")}
+        </Link>
+
+        <header className="fade-in-up mt-6">
+          <h1 className="text-3xl md:text-4xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-50">
+            {project.title}
+          </h1>
+          <p className="mt-3 text-lg text-neutral-700 dark:text-neutral-300">{project.desc}</p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            {project.stack.map((t) => (
+              <span
+                key={t}
+                className="text-xs rounded-full border border-neutral-300 dark:border-neutral-700 px-2 py-1 text-neutral-700 dark:text-neutral-300"
+              >
+                {t}
+              </span>
+            ))}
+          </div>
+          <div className="mt-4 flex gap-4">
+            <a
+              href={project.links.github}
+              className="inline-flex items-center gap-1 text-sm text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+            >
+              <Github className="w-4 h-4" /> {t("projects.code")}
+            </a>
+            <a
+              href={project.links.live}
+              className="inline-flex items-center gap-1 text-sm text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+            >
+              <ExternalLink className="w-4 h-4" /> {t("projects.live")}
+            </a>
+          </div>
+        </header>
+
+        <div className={`mt-8 h-px bg-gradient-to-r ${ACCENT} opacity-60`} aria-hidden />
+
+        {project.caseStudy ? (
+          <div
+            className="fade-in-up mt-8 prose prose-neutral dark:prose-invert max-w-none"
+            dangerouslySetInnerHTML={{ __html: project.caseStudy.html }}
+          />
+        ) : (
+          <p className="mt-8 text-neutral-600 dark:text-neutral-400">{t("project.comingSoon")}</p>
+        )}
+
+        {project.gallery.length > 0 && (
+          <section aria-labelledby="gallery-heading" className="mt-12">
+            <h2 id="gallery-heading" className="text-xl font-semibold text-neutral-900 dark:text-neutral-100">
+              {t("project.screenshots")}
+            </h2>
+            <div className="mt-4 grid gap-6">
+              {project.gallery.map((shot, i) => (
+                <figure
+                  key={shot.src}
+                  className="rounded-2xl border border-neutral-200 dark:border-neutral-800 overflow-hidden bg-white/50 dark:bg-neutral-900/50"
+                >
+                  <button
+                    type="button"
+                    onClick={() => setViewing(i)}
+                    aria-haspopup="dialog"
+                    aria-label={t("project.enlarge", { alt: shot.alt })}
+                    className="group relative block w-full cursor-zoom-in"
+                  >
+                    <Picture src={shot.src} alt="" sizes="(min-width: 48rem) 46rem, 100vw" className="w-full h-auto" />
+                    <span className="absolute right-3 top-3 rounded-full bg-neutral-900/60 p-1.5 text-white opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100 transition">
+                      <Maximize2 className="w-4 h-4" aria-hidden />
+                    </span>
+                  </button>
+                  {shot.caption && (
+                    <figcaption className="px-4 py-3 text-sm text-neutral-600 dark:text-neutral-400">{shot.caption}</figcaption>
+                  )}
+                </figure>
+              ))}
+            </div>
+            <Lightbox images={project.gallery} index={viewing} onIndexChange={setViewing} onClose={() => setViewing(null)} />
+          </section>
+        )}
+
+        <nav aria-label={t("project.more")} className="mt-16 grid grid-cols-2 gap-4">
+          {prev ? (
+            <Link
+              to={path(`/projects/${prev.slug}`)}
+              className="group rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white/50 dark:bg-neutral-900/50 hover:shadow-md transition"
+            >
+              <span className="inline-flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400">
+                <ArrowLeft className="w-3 h-3" /> {t("project.previous")}
+              </span>
+              <span className="mt-1 block text-sm font-medium text-neutral-900 dark:text-neutral-100">{prev.title}</span>
+            </Link>
+          ) : (
+            <span />
+          )}
+          {next && (
+            <Link
+              to={path(`/projects/${next.slug}`)}
+              className="group rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 text-right bg-white/50 dark:bg-neutral-900/50 hover:shadow-md transition"
+            >
+              <span className="inline-flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400">
+                {t("project.next")} <ArrowRight className="w-3 h-3" />
+              </span>
+              <span className="mt-1 block text-sm font-medium text-neutral-900 dark:text-neutral-100">{next.title}</span>
+            </Link>
+          )}
+        </nav>
+      </div>
+    </article>
+  );
+}
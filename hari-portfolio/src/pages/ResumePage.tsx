@@ -0,0 +1,138 @@
+import type { ReactNode } from "react";
+import { Braces, Download, Printer } from "lucide-react";
+import * as content from "virtual:content";
+import { useI18n } from "../lib/i18n";
+import { RESUME_JSON_FILE, RESUME_PDF_FILE, toJsonResume } from "../lib/resume";
+import { useScrollToTop } from "../lib/scroll";
+
+/**
+ * Résumé view (/resume): the JSON Resume document from src/lib/resume.ts laid
+ * out as a single sheet. Print styles drop the site chrome, so printing this
+ * page gives the same résumé as the generated PDF.
+ */
+
+const RESUME = toJsonResume(content);
+
+const toolbarButton =
+  "inline-flex items-center gap-2 rounded-xl border border-neutral-300 dark:border-neutral-700 px-3 py-2 text-sm text-neutral-800 dark:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition";
+
+export default function ResumePage() {
+  const { t, formatPeriod } = useI18n();
+  const { basics, work, projects, skills } = RESUME;
+
+  useScrollToTop("resume");
+
+  return (
+    <section className="pt-28 md:pt-32 pb-20 md:pb-28 print:p-0">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 print:max-w-none print:px-0">
+        <div className="mb-6 flex flex-wrap items-center gap-3 print:hidden">
+          <h1 className="mr-auto text-2xl font-semibold text-neutral-900 dark:text-neutral-100">{t("resume.title")}</h1>
+          <button type="button" onClick={() => window.print()} className={toolbarButton}>
+            <Printer className="w-4 h-4" aria-hidden /> {t("resume.print")}
+          </button>
+          <a href={content.profile.resume ?? `/${RESUME_PDF_FILE}`} download className={toolbarButton}>
+            <Download className="w-4 h-4" aria-hidden /> {t("resume.downloadPdf")}
+          </a>
+          <a href={`/${RESUME_JSON_FILE}`} className={toolbarButton}>
+            <Braces className="w-4 h-4" aria-hidden /> {t("resume.json")}
+          </a>
+        </div>
+
+        {/* Always a light "paper" sheet, whatever the site theme. */}
+        <article className="rounded-2xl bg-white text-neutral-900 shadow-xl p-8 sm:p-12 print:rounded-none print:shadow-none print:p-0">
+          <header>
+            <h2 className="text-3xl font-semibold tracking-tight">{basics.name}</h2>
+            <p className="mt-1 text-lg text-neutral-600">{basics.label}</p>
+            <p className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm text-neutral-600">
+              <a href={`mailto:${basics.email}`} className="hover:underline">
+                {basics.email}
+              </a>
+              <a href={basics.url} className="hover:underline">
+                {basics.url.replace(/^https?:\/\//, "").replace(/\/$/, "")}
+              </a>
+              {basics.profiles.map((p) => (
+                <a key={p.network} href={p.url} className="hover:underline">
+                  {p.network}: {p.username}
+                </a>
+              ))}
+            </p>
+          </header>
+
+          {basics.summary && (
+            <ResumeSection title={t("resume.summary")}>
+              {basics.summary.split("\n\n").map((paragraph, i) => (
+                <p key={i} className="mt-2 text-sm leading-relaxed text-neutral-700">
+                  {paragraph}
+                </p>
+              ))}
+            </ResumeSection>
+          )}
+
+          {work.length > 0 && (
+            <ResumeSection title={t("experience.title")}>
+              {work.map((w, i) => (
+                <div key={i} className="mt-4 break-inside-avoid">
+                  <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                    <h4 className="font-semibold">
+                      {w.position}, {w.name}
+                      {w.location && <span className="font-normal text-neutral-500"> · {w.location}</span>}
+                    </h4>
+                    <p className="text-sm text-neutral-500">{formatPeriod(`${w.startDate} — ${w.endDate ?? "Present"}`)}</p>
+                  </div>
+                  <ul className="mt-1 list-disc pl-5 text-sm text-neutral-700 space-y-0.5">
+                    {w.highlights.map((h, idx) => (
+                      <li key={idx}>{h}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </ResumeSection>
+          )}
+
+          {projects.length > 0 && (
+            <ResumeSection title={t("projects.title")}>
+              {projects.map((p) => (
+                <div key={p.url} className="mt-4 break-inside-avoid">
+                  <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                    <h4 className="font-semibold">
+                      <a href={p.url} className="hover:underline">
+                        {p.name}
+                      </a>
+                    </h4>
+                    {p.startDate && <p className="text-sm text-neutral-500">{formatPeriod(p.startDate)}</p>}
+                  </div>
+                  <p className="mt-1 text-sm text-neutral-700">{p.description}</p>
+                  <p className="mt-1 text-xs text-neutral-500">{p.keywords.join(" · ")}</p>
+                </div>
+              ))}
+            </ResumeSection>
+          )}
+
+          {skills.length > 0 && (
+            <ResumeSection title={t("skills.title")}>
+              <dl className="mt-2 grid gap-1 text-sm sm:grid-cols-[auto_1fr] sm:gap-x-4">
+                {skills.map((s) => (
+                  <div key={s.name} className="contents">
+                    <dt className="font-medium">{s.name}</dt>
+                    <dd className="text-neutral-700">{s.keywords.join(", ")}</dd>
+                  </div>
+                ))}
+              </dl>
+            </ResumeSection>
+          )}
+        </article>
+      </div>
+    </section>
+  );
+}
+
+function ResumeSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="mt-8 break-inside-avoid-page">
+      <h3 className="border-b border-neutral-200 pb-1 text-xs font-semibold uppercase tracking-widest text-neutral-500">
+        {title}
+      </h3>
+      {children}
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+import { useMemo } from "react";
+import { Link, useSearchParams } from "react-router";
+import { posts } from "virtual:content";
+import PostList from "../components/PostList";
+import { useI18n } from "../lib/i18n";
+import { useScrollToTop } from "../lib/scroll";
+
+/** Writing index (/writing), filterable by tag through `?tag=`. */
+export default function WritingPage() {
+  const [params] = useSearchParams();
+  const { t, path } = useI18n();
+  const tag = params.get("tag");
+
+  const tags = useMemo(
+    () => [...new Set(posts.flatMap((p) => p.tags))].sort((a, b) => a.localeCompare(b)),
+    [],
+  );
+  const visible = tag ? posts.filter((p) => p.tags.some((t) => t.toLowerCase() === tag.toLowerCase())) : posts;
+
+  useScrollToTop("writing");
+
+  const chip = (active: boolean) =>
+    `text-xs rounded-full border px-3 py-1 transition ${
+      active
+        ? "border-neutral-900 dark:border-neutral-100 bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900"
+        : "border-neutral-300 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+    }`;
+
+  return (
+    <section className="pt-28 md:pt-32 pb-20 md:pb-28">
+      <div className="mx-auto max-w-3xl px-4 sm:px-6 lg:px-8">
+        <div className="fade-in-up">
+          <h1 className="text-3xl md:text-4xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-50">{t("writing.title")}</h1>
+          <p className="mt-3 text-neutral-600 dark:text-neutral-400">
+            {t("writing.pageIntro")} {t("writing.subscribe")}{" "}
+            <a href="/rss.xml" className="underline underline-offset-4">RSS</a> {t("writing.or")}{" "}
+            <a href="/atom.xml" className="underline underline-offset-4">Atom</a>.
+          </p>
+
+          {tags.length > 0 && (
+            <nav aria-label={t("writing.filterByTag")} className="mt-6 flex flex-wrap gap-2">
+              <Link to={path("/writing")} aria-current={!tag ? "page" : undefined} className={chip(!tag)}>
+                {t("writing.allTags")}
+              </Link>
+              {tags.map((tagName) => {
+                const active = tagName.toLowerCase() === tag?.toLowerCase();
+                return (
+                  <Link
+                    key={tagName}
+                    to={path(`/writing?tag=${encodeURIComponent(tagName)}`)}
+                    aria-current={active ? "page" : undefined}
+                    className={chip(active)}
+                  >
+                    #{tagName}
+                  </Link>
+                );
+              })}
+            </nav>
+          )}
+
+          <div className="mt-8">
+            {visible.length > 0 ? (
+              <PostList posts={visible} heading="h2" />
+            ) : (
+              <p className="text-neutral-600 dark:text-neutral-400">{t("writing.noTagged", { tag: tag ?? "" })}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
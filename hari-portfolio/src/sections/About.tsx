@@ -0,0 +1,14 @@
+import { useI18n } from "../lib/i18n";
+import Section from "./Section";
+
+export default function About() {
+  const { t, about } = useI18n();
+  return (
+    <Section id="about" title={t("about.title")}>
+      <div
+        className="mt-4 text-neutral-700 dark:text-neutral-300 leading-relaxed space-y-4"
+        dangerouslySetInnerHTML={{ __html: about.html }}
+      />
+    </Section>
+  );
+}
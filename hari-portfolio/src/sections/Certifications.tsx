@@ -0,0 +1,39 @@
+import { Award, ExternalLink } from "lucide-react";
+import { certifications } from "virtual:content";
+import { useI18n } from "../lib/i18n";
+import Section from "./Section";
+
+export default function Certifications() {
+  const { t, formatDate } = useI18n();
+  return (
+    <Section id="certifications" title={t("certifications.title")}>
+      <ul className="mt-8 grid sm:grid-cols-2 gap-4">
+        {certifications.map((c, i) => (
+          <li
+            key={i}
+            className="flex gap-4 rounded-2xl border border-neutral-200 dark:border-neutral-800 p-5 bg-white/50 dark:bg-neutral-900/50 backdrop-blur"
+          >
+            <Award className="mt-1 w-5 h-5 shrink-0 text-accent" aria-hidden />
+            <div className="min-w-0">
+              <h3 className="font-semibold text-neutral-900 dark:text-neutral-100">{c.name}</h3>
+              <p className="text-sm text-neutral-700 dark:text-neutral-300">{c.issuer}</p>
+              <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+                {t("certifications.issued", { date: formatDate(c.date) })}
+                {c.expires && ` · ${t("certifications.expires", { date: formatDate(c.expires) })}`}
+              </p>
+              {c.url && (
+                <a
+                  href={c.url}
+                  aria-label={t("certifications.verifyLabel", { name: c.name })}
+                  className="mt-2 inline-flex items-center gap-1 text-sm text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+                >
+                  <ExternalLink className="w-4 h-4" aria-hidden /> {t("certifications.verify")}
+                </a>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Section>
+  );
+}
@@ -0,0 +1,45 @@
+import { FileText, Github, Linkedin, Mail } from "lucide-react";
+import { Link } from "react-router";
+import { availability } from "virtual:content";
+import ContactForm from "../components/ContactForm";
+import { useI18n } from "../lib/i18n";
+import Section from "./Section";
+
+export default function Contact() {
+  const { t, path, profile } = useI18n();
+  return (
+    <Section id="contact" title={t("contact.title")} intro={t(availability ? "contact.introWithCall" : "contact.intro")} width="3xl">
+      <ContactForm
+        availability={availability}
+        links={
+          <>
+            <a
+              href={profile.socials.github}
+              className="inline-flex items-center gap-2 text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+            >
+              <Github className="w-4 h-4" /> GitHub
+            </a>
+            <a
+              href={profile.socials.linkedin}
+              className="inline-flex items-center gap-2 text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+            >
+              <Linkedin className="w-4 h-4" /> LinkedIn
+            </a>
+            <a
+              href={`mailto:${profile.email}`}
+              className="inline-flex items-center gap-2 text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+            >
+              <Mail className="w-4 h-4" /> {t("contact.emailLink")}
+            </a>
+            <Link
+              to={path("/resume")}
+              className="inline-flex items-center gap-2 text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+            >
+              <FileText className="w-4 h-4" /> {t("contact.resumeLink")}
+            </Link>
+          </>
+        }
+      />
+    </Section>
+  );
+}
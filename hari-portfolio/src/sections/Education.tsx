@@ -0,0 +1,36 @@
+import { GraduationCap } from "lucide-react";
+import { education } from "virtual:content";
+import { useI18n } from "../lib/i18n";
+import Section from "./Section";
+
+export default function Education() {
+  const { t, formatPeriod } = useI18n();
+  return (
+    <Section id="education" title={t("education.title")}>
+      <ul className="mt-8 space-y-4">
+        {education.map((e, i) => (
+          <li
+            key={i}
+            className="flex gap-4 rounded-2xl border border-neutral-200 dark:border-neutral-800 p-5 bg-white/50 dark:bg-neutral-900/50 backdrop-blur"
+          >
+            <GraduationCap className="mt-1 w-5 h-5 shrink-0 text-accent" aria-hidden />
+            <div className="min-w-0 flex-1">
+              <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">{e.degree}</h3>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">{formatPeriod(e.period)}</p>
+              </div>
+              <p className="text-sm text-neutral-700 dark:text-neutral-300">{e.school}</p>
+              {e.points.length > 0 && (
+                <ul className="mt-2 list-disc pl-6 text-sm text-neutral-700 dark:text-neutral-300 space-y-1">
+                  {e.points.map((p, idx) => (
+                    <li key={idx}>{p}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </Section>
+  );
+}
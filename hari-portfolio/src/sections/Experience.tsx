@@ -0,0 +1,142 @@
+import { useId, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { builtOn, experience } from "virtual:content";
+import type { ExperienceEntry, ExperienceRole } from "../content/schema";
+import { experienceTimeline, roleMonths, rolePeriod, tenureMonths, useCurrentMonth } from "../lib/experience";
+import { useI18n } from "../lib/i18n";
+import { ACCENT } from "../theme";
+import Section from "./Section";
+
+function StackTags({ stack }: { stack: string[] }) {
+  if (stack.length === 0) return null;
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {stack.map((t) => (
+        <span
+          key={t}
+          className="text-xs rounded-full border border-neutral-300 dark:border-neutral-700 px-2 py-0.5 text-neutral-700 dark:text-neutral-300"
+        >
+          {t}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/** A role's dates, duration and tags, with its bullet points behind a disclosure button. */
+function RoleDetails({ role, org, now, open: initiallyOpen }: { role: ExperienceRole; org: string; now: string; open: boolean }) {
+  const { t, formatPeriod, formatDuration } = useI18n();
+  const [open, setOpen] = useState(initiallyOpen);
+  const pointsId = useId();
+  return (
+    <>
+      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+        {formatPeriod(rolePeriod(role))} · {formatDuration(roleMonths(role, now))}
+      </p>
+      <StackTags stack={role.stack} />
+      {role.points.length > 0 && (
+        <>
+          <button
+            type="button"
+            aria-expanded={open}
+            aria-controls={pointsId}
+            onClick={() => setOpen((o) => !o)}
+            className="print:hidden mt-2 inline-flex items-center gap-1 text-sm text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-white transition"
+          >
+            <ChevronDown className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} aria-hidden />
+            {t(open ? "experience.hideDetails" : "experience.showDetails")}
+            <span className="sr-only"> {t("experience.detailsFor", { title: role.title, org })}</span>
+          </button>
+          {/* Collapsed points stay in the markup for search engines and print. */}
+          <ul
+            id={pointsId}
+            className={`${open ? "" : "hidden print:block"} mt-2 list-disc pl-6 text-sm text-neutral-700 dark:text-neutral-300 space-y-1`}
+          >
+            {role.points.map((p, idx) => (
+              <li key={idx}>{p}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </>
+  );
+}
+
+function OrgName({ entry }: { entry: ExperienceEntry }) {
+  if (!entry.url) return entry.org;
+  return (
+    <a href={entry.url} target="_blank" rel="noreferrer" className="hover:underline underline-offset-4">
+      {entry.org}
+    </a>
+  );
+}
+
+function ExperienceOrg({ entry, now, latest }: { entry: ExperienceEntry; now: string; latest: boolean }) {
+  const { formatDuration } = useI18n();
+  const [role, ...earlier] = entry.roles;
+  const dot = <div className={`absolute left-0 top-1.5 w-3 h-3 rounded-full bg-gradient-to-br ${ACCENT} shadow`} aria-hidden />;
+  const location = entry.location && <p className="text-sm text-neutral-500 dark:text-neutral-400">{entry.location}</p>;
+
+  if (earlier.length === 0) {
+    return (
+      <li className="relative pl-12">
+        {dot}
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">
+          {role.title} · <OrgName entry={entry} />
+        </h3>
+        {location}
+        <RoleDetails role={role} org={entry.org} now={now} open={latest} />
+      </li>
+    );
+  }
+
+  // Several roles at one organization: the org with its total tenure, then each role under it.
+  return (
+    <li className="relative pl-12">
+      {dot}
+      <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">
+        <OrgName entry={entry} />
+      </h3>
+      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+        {formatDuration(tenureMonths(entry, now))}
+        {entry.location && ` · ${entry.location}`}
+      </p>
+      <ul className="mt-4 space-y-6 border-l border-neutral-200 dark:border-neutral-800 pl-4">
+        {entry.roles.map((r, i) => (
+          <li key={i}>
+            <h4 className="font-medium text-neutral-900 dark:text-neutral-100">{r.title}</h4>
+            <RoleDetails role={r} org={entry.org} now={now} open={latest && i === 0} />
+          </li>
+        ))}
+      </ul>
+    </li>
+  );
+}
+
+export default function Experience({ entries = experience }: { entries?: ExperienceEntry[] }) {
+  const { t, formatDuration } = useI18n();
+  const now = useCurrentMonth(builtOn);
+  const timeline = experienceTimeline(entries, now);
+  return (
+    <Section id="experience" title={t("experience.title")}>
+      <div className="mt-8 relative">
+        <div className="absolute left-4 top-0 bottom-0 w-px bg-neutral-200 dark:bg-neutral-800" aria-hidden />
+        <ul className="space-y-10">
+          {timeline.map((item, i) =>
+            item.kind === "gap" ? (
+              <li key={`gap-${i}`} className="relative pl-12 text-sm italic text-neutral-500 dark:text-neutral-400">
+                <div
+                  className="absolute left-0.5 top-1 w-2 h-2 rounded-full border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-950"
+                  aria-hidden
+                />
+                {t("experience.gap", { duration: formatDuration(item.months) })}
+              </li>
+            ) : (
+              <ExperienceOrg key={`${item.entry.org}-${i}`} entry={item.entry} now={now} latest={i === 0} />
+            ),
+          )}
+        </ul>
+      </div>
+    </Section>
+  );
+}
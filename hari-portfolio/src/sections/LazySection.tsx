@@ -0,0 +1,52 @@
+import { Suspense, use, useEffect, useRef } from "react";
+import type { LazySectionEntry } from "./lazy";
+
+// How far ahead of the viewport a section starts loading.
+const LOAD_MARGIN = "600px 0px";
+
+/** Load `entry` once `el` comes near the viewport. Returns a function that stops watching. */
+function loadNear(entry: LazySectionEntry, el: Element): () => void {
+  if (!("IntersectionObserver" in window)) {
+    void entry.load();
+    return () => {};
+  }
+  const observer = new IntersectionObserver(
+    (records) => {
+      if (!records.some((r) => r.isIntersecting)) return;
+      observer.disconnect();
+      void entry.load();
+    },
+    { rootMargin: LOAD_MARGIN },
+  );
+  observer.observe(el);
+  return () => observer.disconnect();
+}
+
+function Loaded({ entry }: { entry: LazySectionEntry }) {
+  if (!entry.component) {
+    // While hydrating, the section's prerendered markup is already in the document.
+    const markup = typeof document === "undefined" ? null : document.getElementById(entry.id);
+    if (markup && !entry.watched) {
+      entry.watched = true;
+      loadNear(entry, markup);
+    }
+    use(entry.ready);
+  }
+  const Component = entry.component!;
+  return <Component />;
+}
+
+function Placeholder({ entry }: { entry: LazySectionEntry }) {
+  const ref = useRef<HTMLElement>(null);
+  useEffect(() => (ref.current ? loadNear(entry, ref.current) : undefined), [entry]);
+  return <section ref={ref} id={entry.id} aria-busy="true" className="min-h-[50vh]" />;
+}
+
+/** A section from ./lazy.ts: the section once its code has loaded, a placeholder until then. */
+export default function LazySection({ entry }: { entry: LazySectionEntry }) {
+  return (
+    <Suspense fallback={<Placeholder entry={entry} />}>
+      <Loaded entry={entry} />
+    </Suspense>
+  );
+}
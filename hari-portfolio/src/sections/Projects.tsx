@@ -0,0 +1,226 @@
+import { useMemo, type Ref } from "react";
+import { AnimatePresence, MotionConfig, motion } from "framer-motion";
+import { ArrowRight, ExternalLink, Github, Search, Star } from "lucide-react";
+import { Link } from "react-router";
+import { projects } from "virtual:content";
+import Picture from "../components/Picture";
+import type { Project } from "../content/schema";
+import { track } from "../lib/analytics";
+import { useI18n } from "../lib/i18n";
+import { useReducedMotion } from "../lib/motion";
+import {
+  NO_FILTERS,
+  PROJECT_SORTS,
+  applyFilters,
+  isFiltered,
+  stackTags,
+  useProjectFilters,
+  type ProjectSort,
+} from "../lib/project-filters";
+import { rememberHomeScroll } from "../lib/scroll";
+import { ACCENT, fadeInUp } from "../theme";
+import Section from "./Section";
+
+function RepoStats({ repo }: { repo: NonNullable<Project["github"]> }) {
+  const { t, formatDate } = useI18n();
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-neutral-500 dark:text-neutral-400">
+      {repo.recentlyActive && (
+        <span className="inline-flex items-center gap-1 rounded-full bg-emerald-500/10 px-2 py-0.5 font-medium text-emerald-700 dark:text-emerald-300">
+          <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" aria-hidden /> {t("projects.recentlyActive")}
+        </span>
+      )}
+      <span className="inline-flex items-center gap-1">
+        <Star className="w-3.5 h-3.5" aria-hidden />
+        {repo.stars}
+        <span className="sr-only"> {t("projects.stars")}</span>
+      </span>
+      {repo.languages.length > 0 && <span>{repo.languages.join(" · ")}</span>}
+      <span>{t("projects.updated", { date: formatDate(repo.pushedAt.slice(0, 10)) })}</span>
+      {repo.topics.length > 0 && (
+        <ul className="flex w-full flex-wrap gap-1.5" aria-label={t("projects.topics")}>
+          {repo.topics.map((t) => (
+            <li key={t} className="text-accent">
+              #{t}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Takes a ref so AnimatePresence's "popLayout" mode can measure exiting cards. Cards shown
+// from the start skip the entrance (AnimatePresence initial={false}) and appear with the section.
+export function ProjectCard({ p, ref }: { p: Project; ref?: Ref<HTMLDivElement> }) {
+  const { t, path } = useI18n();
+  return (
+    <motion.div
+      ref={ref}
+      layout
+      variants={fadeInUp}
+      initial="hidden"
+      animate="show"
+      exit={{ opacity: 0, scale: 0.96, transition: { duration: 0.2 } }}
+      className="group rounded-2xl border border-neutral-200 dark:border-neutral-800 overflow-hidden bg-white/50 dark:bg-neutral-900/50 backdrop-blur"
+    >
+      {/* Cover image, or a gradient placeholder when the project has none */}
+      {p.cover ? (
+        <div className="h-40 sm:h-48 bg-neutral-100 dark:bg-neutral-900">
+          <Picture
+            src={p.cover.src}
+            alt={p.cover.alt}
+            sizes="(min-width: 1024px) 22rem, (min-width: 640px) 50vw, 100vw"
+            className="w-full h-full object-cover"
+          />
+        </div>
+      ) : (
+        <div className={`h-40 sm:h-48 bg-gradient-to-br ${ACCENT} opacity-80 relative`}>
+          <div className="absolute inset-0 grid place-items-center text-white/90 text-sm tracking-wide uppercase">
+            {t("projects.imagePlaceholder")}
+          </div>
+        </div>
+      )}
+      <div className="p-5">
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">
+          <Link to={path(`/projects/${p.slug}`)} onClick={rememberHomeScroll} className="hover:underline underline-offset-4">
+            {p.title}
+          </Link>
+        </h3>
+        {p.github && <RepoStats repo={p.github} />}
+        <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-400">{p.desc}</p>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {p.stack.map((t) => (
+            <span
+              key={t}
+              className="text-xs rounded-full border border-neutral-300 dark:border-neutral-700 px-2 py-1 text-neutral-700 dark:text-neutral-300"
+            >
+              {t}
+            </span>
+          ))}
+        </div>
+        <div className="mt-4 flex gap-4">
+          <a
+            href={p.links.github}
+            onClick={() => track({ name: "project_link", project: p.slug, link: "code" })}
+            className="inline-flex items-center gap-1 text-sm text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+          >
+            <Github className="w-4 h-4" /> {t("projects.code")}
+          </a>
+          <a
+            href={p.links.live}
+            onClick={() => track({ name: "project_link", project: p.slug, link: "live" })}
+            className="inline-flex items-center gap-1 text-sm text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+          >
+            <ExternalLink className="w-4 h-4" /> {t("projects.live")}
+          </a>
+          <Link
+            to={path(`/projects/${p.slug}`)}
+            onClick={rememberHomeScroll}
+            aria-label={t("projects.caseStudyLabel", { title: p.title })}
+            className="ml-auto inline-flex items-center gap-1 text-sm text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+          >
+            {t("projects.caseStudy")} <ArrowRight className="w-4 h-4" />
+          </Link>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+const STACK_TAGS = stackTags(projects);
+
+export default function Projects() {
+  const { t } = useI18n();
+  // Under reduced motion, Framer Motion skips movement and keeps only fades.
+  const reduced = useReducedMotion();
+  const [filters, setFilters] = useProjectFilters(STACK_TAGS);
+  const shown = useMemo(() => applyFilters(projects, filters), [filters]);
+
+  const toggleTag = (tag: string) =>
+    setFilters({
+      ...filters,
+      stack: filters.stack.includes(tag) ? filters.stack.filter((t) => t !== tag) : [...filters.stack, tag],
+    });
+
+  return (
+    <Section id="projects" title={t("projects.title")} intro={t("projects.intro")} width="6xl">
+      <div className="mt-8 flex flex-col sm:flex-row gap-3">
+        <label className="relative flex-1">
+          <span className="sr-only">{t("projects.search")}</span>
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" aria-hidden />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+            placeholder={t("projects.search")}
+            className="w-full rounded-xl border border-neutral-300 dark:border-neutral-700 bg-white/70 dark:bg-neutral-900/70 pl-9 pr-3 py-2 text-sm text-neutral-900 dark:text-neutral-100 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-accent/50"
+          />
+        </label>
+        <label className="inline-flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+          {t("projects.sort")}
+          <select
+            value={filters.sort}
+            onChange={(e) => setFilters({ ...filters, sort: e.target.value as ProjectSort })}
+            className="rounded-xl border border-neutral-300 dark:border-neutral-700 bg-white/70 dark:bg-neutral-900/70 px-3 py-2 text-sm text-neutral-900 dark:text-neutral-100 focus:outline-none focus:ring-2 focus:ring-accent/50"
+          >
+            {PROJECT_SORTS.map((s) => (
+              <option key={s} value={s}>
+                {t(`projects.sort.${s}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div role="group" aria-label={t("projects.filterByStack")} className="mt-4 flex flex-wrap gap-2">
+        {STACK_TAGS.map((tag) => {
+          const selected = filters.stack.includes(tag);
+          return (
+            <button
+              key={tag}
+              type="button"
+              aria-pressed={selected}
+              onClick={() => toggleTag(tag)}
+              className={`text-xs rounded-full border px-3 py-1.5 transition ${
+                selected
+                  ? "border-transparent bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                  : "border-neutral-300 dark:border-neutral-700 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+              }`}
+            >
+              {tag}
+            </button>
+          );
+        })}
+      </div>
+
+      <p role="status" className="mt-4 text-sm text-neutral-500 dark:text-neutral-400">
+        {isFiltered(filters) ? t("projects.showing", { shown: shown.length, total: projects.length }) : ""}
+      </p>
+
+      {/* Filtering is the one place the page animates layout, so Framer Motion only loads with this section. */}
+      <MotionConfig reducedMotion={reduced ? "always" : "never"}>
+        <motion.div layout className="mt-4 grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          <AnimatePresence mode="popLayout" initial={false}>
+            {shown.map((p) => (
+              <ProjectCard key={p.slug} p={p} />
+            ))}
+          </AnimatePresence>
+        </motion.div>
+      </MotionConfig>
+
+      {shown.length === 0 && (
+        <div className="mt-4 rounded-2xl border border-dashed border-neutral-300 dark:border-neutral-700 p-8 text-center">
+          <p className="text-neutral-700 dark:text-neutral-300">{t("projects.empty")}</p>
+          <button
+            type="button"
+            onClick={() => setFilters(NO_FILTERS)}
+            className="mt-3 text-sm font-medium text-neutral-900 dark:text-white underline underline-offset-4"
+          >
+            {t("projects.clearFilters")}
+          </button>
+        </div>
+      )}
+    </Section>
+  );
+}
@@ -0,0 +1,38 @@
+import type { ReactNode } from "react";
+import type { SectionId } from "../content/schema";
+import { trackSectionView } from "../lib/analytics";
+import { useReveal } from "../lib/reveal";
+
+const WIDTHS = { "3xl": "max-w-3xl", "5xl": "max-w-5xl", "6xl": "max-w-6xl" };
+
+/**
+ * Frame for the home page sections in this folder: the anchor, heading and
+ * optional intro, revealed on scroll (src/lib/reveal.ts), which also counts
+ * the section view.
+ */
+export default function Section({
+  id,
+  title,
+  intro,
+  width = "5xl",
+  children,
+}: {
+  id: SectionId;
+  title: string;
+  intro?: string;
+  width?: keyof typeof WIDTHS;
+  children: ReactNode;
+}) {
+  const reveal = useReveal<HTMLDivElement>(() => trackSectionView(id));
+  return (
+    <section id={id} className="py-20 md:py-28">
+      <div className={`mx-auto ${WIDTHS[width]} px-4 sm:px-6 lg:px-8`}>
+        <div ref={reveal} className="reveal">
+          <h2 className="text-2xl md:text-3xl font-semibold text-neutral-900 dark:text-neutral-100">{title}</h2>
+          {intro && <p className="mt-3 text-neutral-600 dark:text-neutral-400">{intro}</p>}
+          {children}
+        </div>
+      </div>
+    </section>
+  );
+}
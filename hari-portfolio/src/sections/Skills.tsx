@@ -0,0 +1,167 @@
+import { useMemo, useState, type CSSProperties } from "react";
+import { Bot, ChartColumn, Cloud, CodeXml, Coffee, Database, GitBranch, Layers, Server, Terminal, type LucideIcon } from "lucide-react";
+import { Link } from "react-router";
+import { experience, projects, skills } from "virtual:content";
+import type { ExperienceEntry, Project, Skill, SkillIcon } from "../content/schema";
+import { rolePeriod } from "../lib/experience";
+import { useI18n } from "../lib/i18n";
+import { rememberHomeScroll } from "../lib/scroll";
+import { hasSection } from "../lib/sections";
+import { groupSkills, skillUsage } from "../lib/skills";
+import { ACCENT } from "../theme";
+import Section from "./Section";
+
+const SKILL_ICON_COMPONENTS: Record<SkillIcon, LucideIcon> = {
+  code: CodeXml,
+  coffee: Coffee,
+  database: Database,
+  cloud: Cloud,
+  chart: ChartColumn,
+  git: GitBranch,
+  bot: Bot,
+  server: Server,
+  terminal: Terminal,
+  layers: Layers,
+};
+
+type SkillContext = { projects: Project[]; experience: ExperienceEntry[] };
+
+const SITE_CONTENT: SkillContext = { projects, experience };
+
+function ProficiencyMeter({ skill }: { skill: Skill }) {
+  const { t } = useI18n();
+  const { proficiency, years } = skill;
+  if (proficiency === undefined && years === undefined) return null;
+  return (
+    <span className="mt-2 flex items-center gap-2 text-xs text-neutral-500 dark:text-neutral-400">
+      {proficiency !== undefined && (
+        <span role="img" aria-label={t("skills.proficiency", { level: proficiency })} className="flex gap-0.5">
+          {[1, 2, 3, 4, 5].map((n) => (
+            <span
+              key={n}
+              className={`h-1.5 w-3 rounded-full ${
+                n <= proficiency ? `bg-gradient-to-r ${ACCENT}` : "bg-neutral-200 dark:bg-neutral-800"
+              }`}
+            />
+          ))}
+        </span>
+      )}
+      {years !== undefined && (
+        <span>{t(years === 1 ? "skills.years.one" : "skills.years.other", { count: years })}</span>
+      )}
+    </span>
+  );
+}
+
+function SkillUsage({ skill, related }: { skill: Skill; related: SkillContext }) {
+  const { t, path, formatPeriod } = useI18n();
+  const usage = skillUsage(skill, related);
+  const empty = usage.projects.length === 0 && usage.experience.length === 0;
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-5 bg-white/50 dark:bg-neutral-900/50 backdrop-blur">
+      <h3 className="font-semibold text-neutral-900 dark:text-neutral-100">{t("skills.usageTitle", { skill: skill.label })}</h3>
+      {empty ? (
+        <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-400">{t("skills.usageEmpty")}</p>
+      ) : (
+        <div className="mt-3 grid gap-6 sm:grid-cols-2">
+          {usage.projects.length > 0 && (
+            <div>
+              <h4 className="text-xs font-medium uppercase tracking-wide text-neutral-500 dark:text-neutral-400">{t("skills.usageProjects")}</h4>
+              <ul className="mt-2 space-y-1 text-sm">
+                {usage.projects.map((p) => (
+                  <li key={p.slug}>
+                    <Link
+                      to={path(`/projects/${p.slug}`)}
+                      onClick={rememberHomeScroll}
+                      className="text-neutral-800 dark:text-neutral-200 hover:underline underline-offset-4"
+                    >
+                      {p.title}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {usage.experience.length > 0 && (
+            <div>
+              <h4 className="text-xs font-medium uppercase tracking-wide text-neutral-500 dark:text-neutral-400">{t("skills.usageExperience")}</h4>
+              <ul className="mt-2 space-y-1 text-sm">
+                {usage.experience.map((r, i) => (
+                  <li key={i}>
+                    {hasSection("experience") ? (
+                      <Link to={path("/#experience")} className="text-neutral-800 dark:text-neutral-200 hover:underline underline-offset-4">
+                        {r.title} · {r.org}
+                      </Link>
+                    ) : (
+                      <span className="text-neutral-800 dark:text-neutral-200">
+                        {r.title} · {r.org}
+                      </span>
+                    )}{" "}
+                    <span className="text-neutral-500 dark:text-neutral-400">({formatPeriod(rolePeriod(r))})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Section props default to the site's content; the /admin editor previews unsaved edits through them.
+export default function Skills({ items = skills, related = SITE_CONTENT }: { items?: Skill[]; related?: SkillContext }) {
+  const { t } = useI18n();
+  const [selected, setSelected] = useState<string>();
+  const groups = useMemo(() => groupSkills(items), [items]);
+  const skill = items.find((s) => s.label === selected);
+
+  return (
+    <Section id="skills" title={t("skills.title")} intro={t("skills.intro")} width="6xl">
+      <div className="mt-8 grid gap-8 md:grid-cols-2">
+        {groups.map((group) => (
+          <div key={group.category}>
+            <h3 className="text-sm font-medium uppercase tracking-wide text-neutral-500 dark:text-neutral-400">
+              {t(`skills.category.${group.category}`)}
+            </h3>
+            <ul className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {group.skills.map((s, i) => {
+                const Icon = s.icon ? SKILL_ICON_COMPONENTS[s.icon] : null;
+                const pressed = s.label === selected;
+                return (
+                  <li key={s.label} className="reveal-item" style={{ "--reveal-index": i } as CSSProperties}>
+                    <button
+                      type="button"
+                      aria-pressed={pressed}
+                      aria-controls="skill-usage"
+                      onClick={() => setSelected(pressed ? undefined : s.label)}
+                      className={`w-full h-full text-left rounded-xl border px-3 py-2 text-sm bg-white/50 dark:bg-neutral-900/50 backdrop-blur hover:shadow-md hover:-translate-y-0.5 transition ${
+                        pressed
+                          ? "border-accent text-neutral-900 dark:text-white"
+                          : "border-neutral-200 dark:border-neutral-800 text-neutral-800 dark:text-neutral-200"
+                      }`}
+                    >
+                      <span className="flex items-center gap-2">
+                        {Icon ? (
+                          <Icon className="w-4 h-4 shrink-0 text-accent" aria-hidden />
+                        ) : (
+                          <span className="inline-block w-1.5 h-1.5 rounded-full bg-neutral-400 dark:bg-neutral-600" />
+                        )}
+                        {s.label}
+                      </span>
+                      <ProficiencyMeter skill={s} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+      <div id="skill-usage" aria-live="polite" className="mt-8">
+        {skill && <SkillUsage skill={skill} related={related} />}
+      </div>
+    </Section>
+  );
+}
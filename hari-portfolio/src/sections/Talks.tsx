@@ -0,0 +1,40 @@
+import { BookOpen, Mic } from "lucide-react";
+import { talks } from "virtual:content";
+import type { TalkKind } from "../content/schema";
+import { useI18n } from "../lib/i18n";
+import Section from "./Section";
+
+const KIND_ICONS: Record<TalkKind, typeof Mic> = { talk: Mic, publication: BookOpen };
+
+export default function Talks() {
+  const { t, formatDate } = useI18n();
+  return (
+    <Section id="talks" title={t("talks.title")}>
+      <ul className="mt-8 space-y-6">
+        {talks.map((talk, i) => {
+          const Icon = KIND_ICONS[talk.kind];
+          return (
+            <li key={i} className="flex gap-4">
+              <Icon className="mt-1 w-5 h-5 shrink-0 text-accent" aria-hidden />
+              <div className="min-w-0">
+                <h3 className="font-semibold text-neutral-900 dark:text-neutral-100">
+                  {talk.url ? (
+                    <a href={talk.url} className="hover:underline underline-offset-4">
+                      {talk.title}
+                    </a>
+                  ) : (
+                    talk.title
+                  )}
+                </h3>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                  {t(`talks.kind.${talk.kind}`)} · {talk.venue} · {formatDate(talk.date)}
+                </p>
+                {talk.desc && <p className="mt-1 text-sm text-neutral-700 dark:text-neutral-300">{talk.desc}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </Section>
+  );
+}
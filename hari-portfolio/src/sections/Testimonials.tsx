@@ -0,0 +1,34 @@
+import { Quote } from "lucide-react";
+import { testimonials } from "virtual:content";
+import { useI18n } from "../lib/i18n";
+import Section from "./Section";
+
+export default function Testimonials() {
+  const { t } = useI18n();
+  return (
+    <Section id="testimonials" title={t("testimonials.title")}>
+      <ul className="mt-8 grid md:grid-cols-2 gap-6">
+        {testimonials.map((q, i) => (
+          <li key={i}>
+            <figure className="h-full rounded-2xl border border-neutral-200 dark:border-neutral-800 p-6 bg-white/50 dark:bg-neutral-900/50 backdrop-blur">
+              <Quote className="w-5 h-5 text-accent" aria-hidden />
+              <blockquote cite={q.url} className="mt-3 text-neutral-800 dark:text-neutral-200 leading-relaxed">
+                {q.quote}
+              </blockquote>
+              <figcaption className="mt-4 text-sm">
+                {q.url ? (
+                  <a href={q.url} className="font-medium text-neutral-900 dark:text-neutral-100 hover:underline underline-offset-4">
+                    {q.author}
+                  </a>
+                ) : (
+                  <span className="font-medium text-neutral-900 dark:text-neutral-100">{q.author}</span>
+                )}
+                {q.role && <span className="text-neutral-500 dark:text-neutral-400"> · {q.role}</span>}
+              </figcaption>
+            </figure>
+          </li>
+        ))}
+      </ul>
+    </Section>
+  );
+}
@@ -0,0 +1,29 @@
+import { ArrowRight } from "lucide-react";
+import { Link } from "react-router";
+import { posts } from "virtual:content";
+import PostList from "../components/PostList";
+import { useI18n } from "../lib/i18n";
+import Section from "./Section";
+
+const LATEST_POSTS = 3;
+
+export default function Writing() {
+  const { t, path } = useI18n();
+  return (
+    <Section id="writing" title={t("writing.title")} intro={t("writing.intro")}>
+      <div className="mt-8">
+        {posts.length > 0 ? (
+          <PostList posts={posts.slice(0, LATEST_POSTS)} />
+        ) : (
+          <p className="text-neutral-600 dark:text-neutral-400">{t("writing.empty")}</p>
+        )}
+      </div>
+      <Link
+        to={path("/writing")}
+        className="mt-6 inline-flex items-center gap-1 text-sm text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-white transition"
+      >
+        {t("writing.all")} <ArrowRight className="w-4 h-4" />
+      </Link>
+    </Section>
+  );
+}
@@ -0,0 +1,52 @@
+import { createElement, memo, type ComponentType } from "react";
+import type { SectionId } from "../content/schema";
+import LazySection from "./LazySection";
+
+/**
+ * Code-split home page sections: each one below the hero is its own chunk,
+ * requested once its place on the page comes near the viewport (see
+ * ./LazySection.tsx).
+ *
+ * - Prerendering loads them all up front (`preloadSections`, awaited by
+ *   src/entry-server.tsx), so the HTML of every page is complete.
+ * - On a prerendered page React keeps a section's server markup as it is,
+ *   visible but not yet interactive, and hydrates it when the chunk arrives.
+ * - After client-side navigation, a section that hasn't loaded shows an empty
+ *   placeholder carrying its id, so anchor links and the scroll-spy find it.
+ */
+
+export interface LazySectionEntry {
+  id: SectionId;
+  component?: ComponentType;
+  /** Settles once the chunk has loaded; suspended renders wait on it. */
+  ready: Promise<void>;
+  /** Requests the chunk; later calls return the same promise. */
+  load: () => Promise<void>;
+  /** Whether its prerendered markup is being watched. */
+  watched?: boolean;
+}
+
+const entries: LazySectionEntry[] = [];
+
+/** A home page section that loads its code (`load`, a dynamic import) as the visitor scrolls towards it. */
+export function lazySection(id: SectionId, load: () => Promise<{ default: ComponentType }>): ComponentType {
+  let started: Promise<void> | undefined;
+  let loaded!: () => void;
+  const entry: LazySectionEntry = {
+    id,
+    ready: new Promise((resolve) => (loaded = resolve)),
+    load: () =>
+      (started ??= load().then((module) => {
+        entry.component = module.default;
+        loaded();
+      })),
+  };
+  entries.push(entry);
+  // Memoized: re-rendering a section that is still waiting to hydrate would discard its markup.
+  return memo(() => createElement(LazySection, { entry }));
+}
+
+/** Load every lazy section, for rendering them on the server. */
+export async function preloadSections() {
+  await Promise.all(entries.map((entry) => entry.load()));
+}
@@ -0,0 +1,10 @@
+import type { Variants } from "framer-motion";
+
+// Framer Motion counterpart of the `fade-in-up` class in src/index.css, for the project grid
+export const fadeInUp: Variants = {
+  hidden: { opacity: 0, y: 16 },
+  show: { opacity: 1, y: 0, transition: { duration: 0.6, ease: "easeOut" } },
+};
+
+// Accent gradient; colors follow the active palette (see src/lib/theme.ts)
+export const ACCENT = "from-accent to-accent-end";
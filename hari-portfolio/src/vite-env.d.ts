@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Analytics sink: console | endpoint | off (see src/lib/analytics.ts). */
+  readonly VITE_ANALYTICS?: string;
+  readonly VITE_ANALYTICS_ENDPOINT?: string;
+}
@@ -1,3 +1,5 @@
+import typography from '@tailwindcss/typography'
+
 /** @type {import('tailwindcss').Config} */
 export default {
   darkMode: 'class', // enables our manual dark mode toggle
@@ -6,7 +8,15 @@ export default {
     './src/**/*.{ts,tsx,js,jsx}',
   ],
   theme: {
-    extend: {},
+    extend: {
+      colors: {
+        // Active accent palette, set via CSS variables in src/index.css
+        accent: {
+          DEFAULT: 'rgb(var(--accent) / <alpha-value>)',
+          end: 'rgb(var(--accent-end) / <alpha-value>)',
+        },
+      },
+    },
   },
-  plugins: [],
+  plugins: [typography], // `prose` styles for Markdown case studies
 }
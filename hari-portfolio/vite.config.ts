@@ -1,7 +1,36 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import admin from './plugins/admin'
+import api from './plugins/api'
+import content from './plugins/content'
+import feeds from './plugins/feeds'
+import i18n from './plugins/i18n'
+import images from './plugins/images'
+import og from './plugins/og'
+import { profileDirs } from './plugins/profiles'
+import pwa from './plugins/pwa'
+import resume from './plugins/resume'
+import theme from './plugins/theme'
+
+// Which portfolio to serve or build: PORTFOLIO_PROFILE=<id>, see plugins/profiles.ts.
+const profile = profileDirs(process.cwd())
+const dir = profile.content
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-})
+export default defineConfig(({ isSsrBuild }) => ({
+  publicDir: profile.public,
+  build: { outDir: isSsrBuild ? profile.ssrOutDir : profile.outDir },
+  plugins: [
+    react(),
+    theme({ dir }),
+    i18n(),
+    content({ dir }),
+    images(),
+    feeds({ dir }),
+    resume({ dir }),
+    og({ dir }),
+    pwa({ dir }),
+    api({ dir }),
+    admin({ dir }),
+  ],
+}))